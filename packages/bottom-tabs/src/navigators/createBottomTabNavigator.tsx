@@ -23,6 +23,7 @@ type Props = DefaultNavigatorOptions<BottomTabNavigationOptions> &
 function BottomTabNavigator({
   initialRouteName,
   backBehavior,
+  parallelStacks,
   children,
   screenOptions,
   ...rest
@@ -35,6 +36,7 @@ function BottomTabNavigator({
   >(TabRouter, {
     initialRouteName,
     backBehavior,
+    parallelStacks,
     children,
     screenOptions,
   });
@@ -42,6 +44,7 @@ function BottomTabNavigator({
   return (
     <BottomTabView
       {...rest}
+      parallelStacks={parallelStacks}
       state={state}
       navigation={navigation}
       descriptors={descriptors}
@@ -19,12 +19,14 @@ import { TabNavigationState } from '@react-navigation/routers';
 export type BottomTabNavigationEventMap = {
   /**
    * Event which fires on tapping on the tab in the tab bar.
+   * `data.popToTop` tells whether tapping the focused tab resets the stack nested in it.
    */
-  tabPress: undefined;
+  tabPress: { popToTop: boolean };
   /**
    * Event which fires on long press on the tab in the tab bar.
+   * `data.popToTop` tells whether the long press resets the stack nested in the tab.
    */
-  tabLongPress: undefined;
+  tabLongPress: { popToTop: boolean };
 };
 
 export type LabelPosition = 'beside-icon' | 'below-icon';
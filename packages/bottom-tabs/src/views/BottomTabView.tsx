@@ -24,6 +24,7 @@ import {
 } from '../types';
 
 type Props = BottomTabNavigationConfig & {
+  parallelStacks?: boolean;
   state: TabNavigationState;
   navigation: BottomTabNavigationHelpers;
   descriptors: BottomTabDescriptorMap;
@@ -146,10 +147,12 @@ export default class BottomTabView extends React.Component<Props, State> {
     this.props.descriptors[route.key].options.tabBarTestID;
 
   private handleTabPress = ({ route }: { route: Route<string> }) => {
-    const { state, navigation } = this.props;
+    const { state, navigation, parallelStacks } = this.props;
     const event = this.props.navigation.emit({
       type: 'tabPress',
       target: route.key,
+      // With parallel stacks, tapping a tab always restores its stack as it was left
+      data: { popToTop: !parallelStacks },
     });
 
     if (
@@ -164,10 +167,24 @@ export default class BottomTabView extends React.Component<Props, State> {
   };
 
   private handleTabLongPress = ({ route }: { route: Route<string> }) => {
-    this.props.navigation.emit({
+    const { state, navigation, parallelStacks } = this.props;
+    const event = navigation.emit({
       type: 'tabLongPress',
       target: route.key,
+      // With parallel stacks, long press resets the stack instead of tapping the focused tab
+      data: { popToTop: Boolean(parallelStacks) },
     });
+
+    if (
+      parallelStacks &&
+      state.routes[state.index].key !== route.key &&
+      !event.defaultPrevented
+    ) {
+      navigation.dispatch({
+        ...CommonActions.navigate(route.name),
+        target: state.key,
+      });
+    }
   };
 
   private renderTabBar = () => {
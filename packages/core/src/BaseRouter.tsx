@@ -1,5 +1,12 @@
 import shortid from 'shortid';
-import { CommonAction, NavigationState, PartialState } from './types';
+import { assertValidState } from './validateState';
+import warnNonSerializableParams from './warnNonSerializableParams';
+import {
+  CommonAction,
+  NavigationState,
+  PartialState,
+  RouterConfigOptions,
+} from './types';
 
 /**
  * Base router object that can be used when writing custom routers.
@@ -8,7 +15,8 @@ import { CommonAction, NavigationState, PartialState } from './types';
 const BaseRouter = {
   getStateForAction<State extends NavigationState>(
     state: State,
-    action: CommonAction
+    action: CommonAction,
+    options?: RouterConfigOptions
   ): State | PartialState<State> | null {
     switch (action.type) {
       case 'REPLACE': {
@@ -45,6 +53,16 @@ const BaseRouter = {
           return null;
         }
 
+        if (
+          process.env.NODE_ENV !== 'production' &&
+          !(options && options.allowNonSerializableParams)
+        ) {
+          warnNonSerializableParams(
+            action.payload.params,
+            state.routes[index].key
+          );
+        }
+
         return {
           ...state,
           routes: state.routes.map((r, i) =>
@@ -56,6 +74,18 @@ const BaseRouter = {
       }
 
       case 'RESET':
+        if (process.env.NODE_ENV !== 'production') {
+          assertValidState(
+            action.payload,
+            {
+              routeNames: state.routeNames,
+              allowNonSerializableParams:
+                options && options.allowNonSerializableParams,
+            },
+            "the 'RESET' action"
+          );
+        }
+
         return action.payload as PartialState<State>;
 
       default:
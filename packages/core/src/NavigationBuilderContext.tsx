@@ -2,6 +2,7 @@ import * as React from 'react';
 import {
   NavigationAction,
   NavigationHelpers,
+  NavigationMiddleware,
   NavigationState,
   ParamListBase,
 } from './types';
@@ -21,6 +22,8 @@ export type FocusedNavigationListener = <T>(
 
 export type NavigatorStateGetter = () => NavigationState;
 
+export type ChildBeforeRemoveListener = (action: NavigationAction) => boolean;
+
 /**
  * Context which holds the required helpers needed to build nested navigators.
  */
@@ -33,7 +36,16 @@ const NavigationBuilderContext = React.createContext<{
   addFocusedListener?: (listener: FocusedNavigationListener) => void;
   onRouteFocus?: (key: string) => void;
   addStateGetter?: (key: string, getter: NavigatorStateGetter) => void;
+  addBeforeRemoveListener?: (
+    key: string,
+    listener: ChildBeforeRemoveListener
+  ) => void;
   trackAction: (action: NavigationAction) => void;
+  middleware?: NavigationMiddleware[];
+  allowNonSerializableParams?: boolean;
+  onActionHandled?: (action: NavigationAction, noop: boolean) => void;
+  onActionDispatched?: (action: NavigationAction, handled: boolean) => void;
+  onActionError?: (action: NavigationAction, error: Error) => void;
 }>({
   trackAction: () => undefined,
 });
@@ -5,7 +5,11 @@ import NavigationBuilderContext from './NavigationBuilderContext';
 import ResetRootContext from './ResetRootContext';
 import useFocusedListeners from './useFocusedListeners';
 import useDevTools from './useDevTools';
+import useEventEmitter from './useEventEmitter';
+import useHistoryRecorder from './useHistoryRecorder';
+import usePersistence from './usePersistence';
 import useStateGetters from './useStateGetters';
+import { assertValidState } from './validateState';
 
 import {
   Route,
@@ -82,6 +86,11 @@ const getPartialState = (
  *
  * @param props.initialState Initial state object for the navigation tree.
  * @param props.onStateChange Callback which is called with the latest navigation state when it changes.
+ * @param props.persistence Options to persist the navigation state and restore it on next mount.
+ * @param props.middleware List of middleware to intercept actions before the routers handle them.
+ * @param props.historyRecorder Options to record the history of actions and resulting states.
+ * @param props.devToolsTransport Transport to send the actions and states to devtools.
+ * @param props.allowNonSerializableParams Whether to allow params which can't be serialized without a warning.
  * @param props.children Child elements to render the content.
  * @param props.ref Ref object which refers to the navigation object containing helper methods.
  */
@@ -89,6 +98,11 @@ const Container = React.forwardRef(function NavigationContainer(
   {
     initialState,
     onStateChange,
+    persistence,
+    middleware,
+    historyRecorder,
+    devToolsTransport,
+    allowNonSerializableParams,
     independent,
     children,
   }: NavigationContainerProps,
@@ -102,31 +116,98 @@ const Container = React.forwardRef(function NavigationContainer(
     );
   }
 
-  const [state, setNavigationState] = React.useState<State>(() =>
-    getPartialState(initialState == null ? undefined : initialState)
-  );
+  const [state, setNavigationState] = React.useState<State>(() => {
+    if (process.env.NODE_ENV !== 'production' && initialState != null) {
+      assertValidState(
+        initialState,
+        { allowNonSerializableParams },
+        "'initialState'"
+      );
+    }
+
+    // When persistence is enabled, the state will be set after it's restored
+    return persistence === undefined
+      ? getPartialState(initialState == null ? undefined : initialState)
+      : undefined;
+  });
+
+  const { isRestoring, isRestoredStateValid, persistState } = usePersistence({
+    persistence,
+    onRestore: restoredState =>
+      setNavigationState(
+        getPartialState(
+          restoredState !== undefined
+            ? restoredState
+            : initialState == null
+            ? undefined
+            : initialState
+        )
+      ),
+  });
 
+  // We don't want to reset to the initial state if it changes later, so we keep the one from the first render
+  const initialStateRef = React.useRef(initialState);
   const navigationStateRef = React.useRef<State>();
   const transactionStateRef = React.useRef<State | null>(null);
   const isTransactionActiveRef = React.useRef<boolean>(false);
   const isFirstMountRef = React.useRef<boolean>(true);
   const skipTrackingRef = React.useRef<boolean>(false);
+  const isReadyRef = React.useRef<boolean>(false);
 
   const reset = React.useCallback((state: NavigationState) => {
     skipTrackingRef.current = true;
     setNavigationState(state);
   }, []);
 
-  const { trackState, trackAction } = useDevTools({
+  const {
+    trackState: trackDevToolsState,
+    trackAction: trackDevToolsAction,
+  } = useDevTools({
     name: '@react-navigation',
     reset,
     state,
+    transport: devToolsTransport,
   });
 
+  const {
+    trackState: trackHistoryState,
+    trackAction: trackHistoryAction,
+    undo,
+    redo,
+    jumpTo,
+    getHistory,
+  } = useHistoryRecorder({
+    options: historyRecorder,
+    reset,
+  });
+
+  const trackState = React.useCallback(
+    (getState: () => NavigationState | undefined) => {
+      trackDevToolsState(getState);
+      trackHistoryState(getState);
+    },
+    [trackDevToolsState, trackHistoryState]
+  );
+
+  const trackAction = React.useCallback(
+    (action: NavigationAction | string) => {
+      trackDevToolsAction(action);
+      trackHistoryAction(action);
+    },
+    [trackDevToolsAction, trackHistoryAction]
+  );
+
   const { listeners, addListener: addFocusedListener } = useFocusedListeners();
 
   const { getStateForRoute, addStateGetter } = useStateGetters();
 
+  const emitter = useEventEmitter();
+
+  const { addListener, removeListener } = React.useMemo(
+    () => emitter.create('root'),
+    [emitter]
+  );
+
   const dispatch = (
     action: NavigationAction | ((state: NavigationState) => NavigationAction)
   ) => {
@@ -147,16 +228,22 @@ const Container = React.forwardRef(function NavigationContainer(
 
   const resetRoot = React.useCallback(
     (state?: PartialState<NavigationState> | NavigationState) => {
+      if (process.env.NODE_ENV !== 'production' && state !== undefined) {
+        assertValidState(state, { allowNonSerializableParams }, "'resetRoot'");
+      }
+
       trackAction('@@RESET_ROOT');
       setNavigationState(state);
     },
-    [trackAction]
+    [allowNonSerializableParams, trackAction]
   );
 
   const getRootState = React.useCallback(() => {
     return getStateForRoute('root');
   }, [getStateForRoute]);
 
+  const isReady = () => !isRestoring && listeners[0] !== undefined;
+
   React.useImperativeHandle(ref, () => ({
     ...(Object.keys(CommonActions) as Array<keyof typeof CommonActions>).reduce<
       any
@@ -174,15 +261,59 @@ const Container = React.forwardRef(function NavigationContainer(
     dispatch,
     canGoBack,
     getRootState,
+    isReady,
+    addListener,
+    removeListener,
+    undo,
+    redo,
+    jumpTo,
+    getHistory,
   }));
 
+  const onActionHandled = React.useCallback(
+    (action: NavigationAction, noop: boolean) =>
+      emitter.emit({ type: '__unsafe_action__', data: { action, noop } }),
+    [emitter]
+  );
+
+  const onActionDispatched = React.useCallback(
+    (action: NavigationAction, handled: boolean) => {
+      emitter.emit({ type: 'action', data: { action, handled } });
+
+      if (!handled) {
+        emitter.emit({ type: 'unhandledAction', data: { action } });
+      }
+    },
+    [emitter]
+  );
+
+  const onActionError = React.useCallback(
+    (action: NavigationAction, error: Error) =>
+      emitter.emit({ type: 'error', data: { action, error } }),
+    [emitter]
+  );
+
   const builderContext = React.useMemo(
     () => ({
       addFocusedListener,
       addStateGetter,
       trackAction,
+      middleware,
+      allowNonSerializableParams,
+      onActionHandled,
+      onActionDispatched,
+      onActionError,
     }),
-    [addFocusedListener, trackAction, addStateGetter]
+    [
+      addFocusedListener,
+      trackAction,
+      addStateGetter,
+      middleware,
+      allowNonSerializableParams,
+      onActionHandled,
+      onActionDispatched,
+      onActionError,
+    ]
   );
 
   const performTransaction = React.useCallback((callback: () => void) => {
@@ -233,21 +364,70 @@ const Container = React.forwardRef(function NavigationContainer(
   );
 
   React.useEffect(() => {
+    navigationStateRef.current = state;
+    transactionStateRef.current = null;
+
+    if (isRestoring) {
+      // The navigators aren't rendered until the state is restored
+      return;
+    }
+
     if (skipTrackingRef.current) {
       skipTrackingRef.current = false;
     } else {
       trackState(getRootState);
     }
 
-    navigationStateRef.current = state;
-    transactionStateRef.current = null;
+    if (isFirstMountRef.current) {
+      isFirstMountRef.current = false;
+
+      // If the restored state doesn't fit the screens anymore, the routers will have dropped some routes
+      // In this case, we discard the restored state and start with the initial state instead
+      if (!isRestoredStateValid(getRootState())) {
+        const { current: initialState } = initialStateRef;
 
-    if (!isFirstMountRef.current && onStateChange) {
-      onStateChange(getRootState());
+        setNavigationState(
+          getPartialState(initialState == null ? undefined : initialState)
+        );
+
+        return;
+      }
+    } else {
+      const rootState = getRootState();
+
+      if (onStateChange) {
+        onStateChange(rootState);
+      }
+
+      emitter.emit({ type: 'state', data: { state: rootState } });
+
+      persistState(rootState);
     }
 
-    isFirstMountRef.current = false;
-  }, [state, onStateChange, trackState, getRootState]);
+    if (!isReadyRef.current && listeners[0] !== undefined) {
+      // The effects of child navigators run first, so they have registered themselves by now
+      isReadyRef.current = true;
+      emitter.emit({ type: 'ready' });
+    }
+  }, [
+    state,
+    isRestoring,
+    isRestoredStateValid,
+    onStateChange,
+    persistState,
+    trackState,
+    getRootState,
+    listeners,
+    emitter,
+  ]);
+
+  if (isRestoring) {
+    return (
+      <React.Fragment>
+        {persistence ? persistence.fallback : null}
+      </React.Fragment>
+    );
+  }
 
   return (
     <NavigationBuilderContext.Provider value={builderContext}>
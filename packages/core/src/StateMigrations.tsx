@@ -0,0 +1,225 @@
+import { InitialState, StateMigration } from './types';
+
+type InitialRoute = InitialState['routes'][number];
+
+/**
+ * Transform every state object in the tree, starting from the most deeply nested ones.
+ *
+ * @param state State object to transform.
+ * @param transform Function which receives a state object and the route containing it.
+ * @param parent Route which contains the state object, if any.
+ */
+const mapStates = (
+  state: InitialState,
+  transform: (state: InitialState, parent?: InitialRoute) => InitialState,
+  parent?: InitialRoute
+): InitialState =>
+  transform(
+    {
+      ...state,
+      routes: state.routes.map(route =>
+        route.state !== undefined
+          ? { ...route, state: mapStates(route.state, transform, route) }
+          : route
+      ),
+    },
+    parent
+  );
+
+/**
+ * Get the route which is focused in a state object, if the state specifies an index.
+ */
+const getFocusedRoute = (state: InitialState) =>
+  typeof state.index === 'number' ? state.routes[state.index] : undefined;
+
+/**
+ * Change the name of all routes with the given name, e.g. when a screen was renamed.
+ *
+ * @param from Previous name of the route.
+ * @param to New name of the route.
+ */
+export function renameRoute(from: string, to: string): StateMigration {
+  return state =>
+    mapStates(state, current => ({
+      ...current,
+      routes: current.routes.map(route =>
+        route.name === from ? { ...route, name: to } : route
+      ),
+    }));
+}
+
+/**
+ * Transform the params of all routes with the given name, e.g. when a param was renamed.
+ *
+ * @param name Name of the route whose params should be transformed.
+ * @param transform Function which receives the old params and returns the new params.
+ */
+export function transformParams(
+  name: string,
+  transform: (params: object | undefined) => object | undefined
+): StateMigration {
+  return state =>
+    mapStates(state, current => ({
+      ...current,
+      routes: current.routes.map(route =>
+        route.name === name
+          ? { ...route, params: transform(route.params) }
+          : route
+      ),
+    }));
+}
+
+/**
+ * Move all routes with the given name into the state of a nested navigator.
+ * This is useful when a screen was moved into a nested navigator, e.g. from the root stack into a tab.
+ * If a route for the nested navigator already exists next to the moved route, the route is added to its state.
+ * Otherwise a new route for the nested navigator is created in place of the moved route.
+ *
+ * @param name Name of the route to move.
+ * @param parentName Name of the route which renders the nested navigator.
+ */
+export function moveRouteInto(
+  name: string,
+  parentName: string
+): StateMigration {
+  return state =>
+    mapStates(state, (current, parent) => {
+      if (
+        (parent !== undefined && parent.name === parentName) ||
+        !current.routes.some(route => route.name === name)
+      ) {
+        return current;
+      }
+
+      const focused = getFocusedRoute(current);
+      const moved = current.routes.filter(route => route.name === name);
+      const existing = current.routes.find(route => route.name === parentName);
+      const nestedState: InitialState = {
+        ...(existing !== undefined ? existing.state : undefined),
+        routes: [
+          ...(existing !== undefined && existing.state !== undefined
+            ? existing.state.routes
+            : []),
+          ...moved,
+        ],
+      };
+
+      if (focused !== undefined && focused.name === name) {
+        // Keep the moved route focused inside the nested navigator
+        nestedState.index = nestedState.routes.indexOf(focused);
+      }
+
+      const parentRoute: InitialRoute =
+        existing !== undefined
+          ? { ...existing, state: nestedState }
+          : { name: parentName, state: nestedState };
+
+      const routes = current.routes.reduce<InitialRoute[]>((acc, route) => {
+        if (
+          route === existing ||
+          (existing === undefined && route === moved[0])
+        ) {
+          acc.push(parentRoute);
+        } else if (route.name !== name) {
+          acc.push(route);
+        }
+
+        return acc;
+      }, []);
+
+      if (focused === undefined) {
+        return { ...current, routes };
+      }
+
+      return {
+        ...current,
+        routes,
+        index: routes.indexOf(
+          focused.name === name || focused === existing ? parentRoute : focused
+        ),
+      };
+    });
+}
+
+/**
+ * Move all routes with the given name out of the state of a nested navigator.
+ * This is useful when a screen was moved from a nested navigator to its parent, e.g. from a tab to the root stack.
+ * The moved routes are placed after the route for the nested navigator.
+ * If the nested navigator doesn't contain any other routes, its route is removed.
+ *
+ * @param name Name of the route to move.
+ * @param parentName Name of the route which renders the nested navigator.
+ */
+export function moveRouteOutOf(
+  name: string,
+  parentName: string
+): StateMigration {
+  return state =>
+    mapStates(state, current => {
+      const focused = getFocusedRoute(current);
+
+      let nextFocused = focused;
+
+      const routes = current.routes.reduce<InitialRoute[]>((acc, route) => {
+        const nested = route.state;
+
+        if (
+          route.name !== parentName ||
+          nested === undefined ||
+          !nested.routes.some(r => r.name === name)
+        ) {
+          acc.push(route);
+          return acc;
+        }
+
+        const nestedFocused = getFocusedRoute(nested);
+        const moved = nested.routes.filter(r => r.name === name);
+        const remaining = nested.routes.filter(r => r.name !== name);
+
+        let parentRoute: InitialRoute | undefined;
+
+        if (remaining.length) {
+          parentRoute = {
+            ...route,
+            state: {
+              ...nested,
+              routes: remaining,
+              ...(nestedFocused !== undefined
+                ? {
+                    index: remaining.includes(nestedFocused)
+                      ? remaining.indexOf(nestedFocused)
+                      : remaining.length - 1,
+                  }
+                : null),
+            },
+          };
+
+          acc.push(parentRoute);
+        }
+
+        acc.push(...moved);
+
+        if (route === focused) {
+          // Keep the focus on the moved route if it was focused inside the nested navigator
+          nextFocused =
+            nestedFocused !== undefined && moved.includes(nestedFocused)
+              ? nestedFocused
+              : parentRoute !== undefined
+              ? parentRoute
+              : moved[moved.length - 1];
+        }
+
+        return acc;
+      }, []);
+
+      if (nextFocused === undefined) {
+        return { ...current, routes };
+      }
+
+      return {
+        ...current,
+        routes,
+        index: routes.indexOf(nextFocused),
+      };
+    });
+}
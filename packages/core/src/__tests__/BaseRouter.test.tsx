@@ -132,3 +132,94 @@ it('resets state to new state with RESET', () => {
 
   expect(result).toEqual({ index: 0, routes });
 });
+
+it('warns for non-serializable params with RESET', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const routes = [
+    { key: 'foo-reset', name: 'foo', params: { date: new Date(0) } },
+  ];
+
+  expect(
+    BaseRouter.getStateForAction(
+      STATE,
+      CommonActions.reset({ index: 0, routes }),
+      {
+        routeNames: ['foo', 'bar', 'baz', 'qux'],
+        routeParamList: {},
+        allowNonSerializableParams: true,
+      }
+    )
+  ).toEqual({ index: 0, routes });
+
+  expect(spy).not.toHaveBeenCalled();
+
+  BaseRouter.getStateForAction(
+    STATE,
+    CommonActions.reset({ index: 0, routes })
+  );
+
+  expect(spy).toBeCalledTimes(1);
+  expect(spy.mock.calls[0][0]).toMatch(
+    "Non-serializable values were found in the params of the route 'foo-reset':\n- params.date: Found non-serializable instance of class 'Date'."
+  );
+
+  spy.mockRestore();
+});
+
+it('throws for invalid state with RESET', () => {
+  expect(() =>
+    BaseRouter.getStateForAction(
+      STATE,
+      CommonActions.reset({
+        index: 2,
+        routes: [
+          { key: 'foo', name: 'foo' },
+          { key: 'foo', name: 'quz' },
+        ],
+      })
+    )
+  ).toThrowError(
+    "The navigation state passed to the 'RESET' action is invalid:\n" +
+      "- $.index: Expected the index to be an integer between 0 and 1, but got '2'.\n" +
+      "- $.routes[1].name: The route name 'quz' doesn't match any of the screens in the navigator ('foo', 'bar', 'baz', 'qux').\n" +
+      "- $.routes[1].key: The route key 'foo' is already used by the route at '$.routes[0]'. Route keys need to be unique."
+  );
+});
+
+it('warns once for non-serializable params with SET_PARAMS', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const options = {
+    routeNames: ['foo', 'bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  BaseRouter.getStateForAction(
+    STATE,
+    CommonActions.setParams({ date: new Date(0) }),
+    options
+  );
+
+  BaseRouter.getStateForAction(
+    STATE,
+    CommonActions.setParams({ onPress: () => {} }),
+    options
+  );
+
+  expect(spy).toBeCalledTimes(1);
+  expect(spy.mock.calls[0][0]).toMatch(
+    "Non-serializable values were found in the params of the route 'bar':\n- params.date: Found non-serializable instance of class 'Date'."
+  );
+
+  BaseRouter.getStateForAction(
+    STATE,
+    {
+      ...CommonActions.setParams({ onPress: () => {} }),
+      source: 'baz',
+    },
+    { ...options, allowNonSerializableParams: true }
+  );
+
+  expect(spy).toBeCalledTimes(1);
+
+  spy.mockRestore();
+});
@@ -6,6 +6,7 @@ import NavigationContainer, {
 import MockRouter, { MockActions } from './__fixtures__/MockRouter';
 import useNavigationBuilder from '../useNavigationBuilder';
 import Screen from '../Screen';
+import * as StateMigrations from '../StateMigrations';
 import {
   DefaultRouterOptions,
   NavigationState,
@@ -148,6 +149,100 @@ it('throws when nesting containers', () => {
   );
 });
 
+it('throws when the initial state is invalid', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  expect(() =>
+    render(
+      <NavigationContainer
+        initialState={{
+          index: 1,
+          routes: [{ name: 'foo', params: { onPress: () => {} } }],
+        }}
+      >
+        <React.Fragment />
+      </NavigationContainer>
+    )
+  ).toThrowError(
+    "The navigation state passed to 'initialState' is invalid:\n" +
+      "- $.index: Expected the index to be an integer between 0 and 0, but got '1'."
+  );
+
+  expect(spy).not.toHaveBeenCalled();
+
+  spy.mockRestore();
+});
+
+it('warns for non-serializable params in a valid initial state', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const root = render(
+    <NavigationContainer
+      initialState={{
+        routes: [{ name: 'lex', params: { onPress: () => {} } }],
+      }}
+    >
+      <React.Fragment />
+    </NavigationContainer>
+  );
+
+  expect(spy).toBeCalledTimes(1);
+  expect(spy.mock.calls[0][0]).toMatch(
+    "Non-serializable values were found in the params of the route 'lex':\n- params.onPress: Found non-serializable value of type 'function'."
+  );
+
+  root.unmount();
+  spy.mockRestore();
+});
+
+it("doesn't throw or warn for non-serializable params when they're allowed", () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <NavigationContainer
+      ref={ref}
+      allowNonSerializableParams
+      initialState={{
+        routes: [{ name: 'fiz', params: { date: new Date(0) } }],
+      }}
+    >
+      <React.Fragment />
+    </NavigationContainer>
+  );
+
+  expect(() =>
+    act(() =>
+      ref.current!.resetRoot({
+        routes: [{ name: 'fiz', params: { cb: () => {} } }],
+      })
+    )
+  ).not.toThrow();
+
+  expect(spy).not.toHaveBeenCalled();
+
+  root.unmount();
+  spy.mockRestore();
+});
+
+it('throws when resetting to an invalid state with ref', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref}>
+      <React.Fragment />
+    </NavigationContainer>
+  );
+
+  expect(() =>
+    // @ts-ignore
+    ref.current!.resetRoot({ index: 0, routes: [{ key: 'foo' }] })
+  ).toThrowError(
+    "The navigation state passed to 'resetRoot' is invalid:\n" +
+      "- $.routes[0].name: Expected the route name to be a string, but got 'undefined'."
+  );
+});
+
 it('handle dispatching with ref', () => {
   const CurrentParentRouter = MockRouter;
 
@@ -440,3 +535,526 @@ it('handle getRootState', () => {
     type: 'test',
   });
 });
+
+const createMemoryStorage = (items: Record<string, string> = {}) => ({
+  items,
+  getItem: jest.fn((key: string) => Promise.resolve(items[key])),
+  setItem: jest.fn((key: string, value: string) => {
+    items[key] = value;
+
+    return Promise.resolve();
+  }),
+});
+
+const flushPromises = async () => {
+  // React 16.8 doesn't support async `act`, so the update after restoring the state can't be wrapped
+  const error = console.error;
+
+  console.error = (...args: any[]) =>
+    /not wrapped in act/.test(args[0]) ? undefined : error(...args);
+
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  console.error = error;
+
+  // Make sure that the effects for the updates after restoring have run
+  act(() => undefined);
+};
+
+it('renders fallback until the persisted state is restored', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage({
+    '@react-navigation/state': JSON.stringify({
+      version: 0,
+      state: {
+        index: 1,
+        routes: [
+          { key: 'foo', name: 'foo' },
+          { key: 'bar', name: 'bar', params: { answer: 42 } },
+        ],
+      },
+    }),
+  });
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <NavigationContainer
+      ref={ref}
+      persistence={{ storage, fallback: 'loading' }}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">{() => 'bar'}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  expect(root.toJSON()).toBe('loading');
+  expect(storage.getItem).toBeCalledWith('@react-navigation/state');
+
+  await flushPromises();
+
+  expect(root.toJSON()).toBe('bar');
+  expect(ref.current && ref.current.getRootState()).toEqual({
+    index: 1,
+    key: '9',
+    routeNames: ['foo', 'bar'],
+    routes: [
+      { key: 'foo', name: 'foo' },
+      { key: 'bar', name: 'bar', params: { answer: 42 } },
+    ],
+    stale: false,
+    type: 'test',
+  });
+});
+
+it('uses initial state when nothing is persisted', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage();
+
+  const root = render(
+    <NavigationContainer
+      initialState={{ index: 1, routes: [{ name: 'foo' }, { name: 'bar' }] }}
+      persistence={{ storage, key: 'custom' }}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">{() => 'bar'}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  expect(root.toJSON()).toBe(null);
+  expect(storage.getItem).toBeCalledWith('custom');
+
+  await flushPromises();
+
+  expect(root.toJSON()).toBe('bar');
+});
+
+it('uses initial state when the persisted state does not fit the screens', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage({
+    '@react-navigation/state': JSON.stringify({
+      version: 0,
+      state: {
+        index: 1,
+        routes: [
+          { key: 'foo', name: 'foo' },
+          { key: 'baz', name: 'baz' },
+        ],
+      },
+    }),
+  });
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <NavigationContainer
+      ref={ref}
+      initialState={{ index: 1, routes: [{ name: 'foo' }, { name: 'bar' }] }}
+      persistence={{ storage }}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">{() => 'bar'}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  await flushPromises();
+
+  expect(root.toJSON()).toBe('bar');
+  expect(ref.current && ref.current.getRootState()).toEqual({
+    index: 1,
+    key: expect.any(String),
+    routeNames: ['foo', 'bar'],
+    routes: [
+      { key: expect.any(String), name: 'foo' },
+      { key: expect.any(String), name: 'bar' },
+    ],
+    stale: false,
+    type: 'test',
+  });
+});
+
+it('persists the state after changes with a debounce', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage();
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  const root = render(
+    <NavigationContainer
+      ref={ref}
+      onStateChange={onStateChange}
+      persistence={{ storage, debounce: 10 }}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">{() => 'bar'}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  await flushPromises();
+
+  expect(onStateChange).toBeCalledTimes(0);
+
+  act(() => ref.current && ref.current.navigate('bar'));
+
+  act(() => ref.current && ref.current.setParams({ answer: 42 }));
+
+  expect(onStateChange).toBeCalledTimes(2);
+  expect(storage.setItem).toBeCalledTimes(0);
+
+  await new Promise(resolve => setTimeout(resolve, 20));
+
+  expect(storage.setItem).toBeCalledTimes(1);
+  expect(JSON.parse(storage.items['@react-navigation/state'])).toEqual({
+    version: 0,
+    state: onStateChange.mock.calls[1][0],
+  });
+
+  act(() => ref.current && ref.current.navigate('foo'));
+
+  root.unmount();
+
+  expect(storage.setItem).toBeCalledTimes(2);
+  expect(
+    JSON.parse(storage.items['@react-navigation/state']).state.routes[0]
+  ).toEqual({ key: 'foo', name: 'foo' });
+});
+
+it('migrates the persisted state saved with an older version', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage({
+    '@react-navigation/state': JSON.stringify({
+      version: 1,
+      state: {
+        index: 1,
+        routes: [
+          { key: 'foo', name: 'foo' },
+          { key: 'baz', name: 'baz', params: { count: 42 } },
+        ],
+      },
+    }),
+  });
+
+  const root = render(
+    <NavigationContainer
+      persistence={{
+        storage,
+        version: 2,
+        migrations: {
+          2: StateMigrations.renameRoute('baz', 'bar'),
+        },
+      }}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">
+          {({ route }: any) => `bar ${route.params.count}`}
+        </Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  await flushPromises();
+
+  expect(root.toJSON()).toBe('bar 42');
+});
+
+it('reports a missing migration and uses the initial state', async () => {
+  const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const storage = createMemoryStorage({
+    '@react-navigation/state': JSON.stringify({
+      version: 1,
+      state: { index: 0, routes: [{ key: 'bar', name: 'bar' }] },
+    }),
+  });
+
+  const root = render(
+    <NavigationContainer persistence={{ storage, version: 2 }}>
+      <TestNavigator>
+        <Screen name="foo">{() => 'foo'}</Screen>
+        <Screen name="bar">{() => 'bar'}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  await flushPromises();
+
+  expect(root.toJSON()).toBe('foo');
+  expect(spy).toHaveBeenCalledTimes(1);
+  expect(spy.mock.calls[0][0].message).toMatch(
+    "Couldn't find a migration for version 2 of the navigation state."
+  );
+
+  spy.mockRestore();
+});
+
+it('warns when navigating with non-serializable params', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const element = (allowNonSerializableParams?: boolean) => (
+    <NavigationContainer
+      ref={ref}
+      allowNonSerializableParams={allowNonSerializableParams}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  const root = render(element());
+
+  act(() => ref.current!.navigate('bar', { user: { onPress: () => {} } }));
+  act(() => ref.current!.navigate('bar', { callback: () => {} }));
+
+  expect(spy).toBeCalledTimes(1);
+  expect(spy.mock.calls[0][0]).toMatch(
+    "Non-serializable values were found in the params of the route 'bar':\n- params.user.onPress: Found non-serializable value of type 'function'."
+  );
+
+  root.update(element(true));
+
+  act(() => ref.current!.navigate('baz', { callback: () => {} }));
+  act(() => ref.current!.setParams({ callback: () => {} }));
+
+  expect(spy).toBeCalledTimes(1);
+
+  spy.mockRestore();
+});
+
+it('emits events for state changes and actions with ref', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  const onState = jest.fn();
+  const onAction = jest.fn();
+  const onUnhandledAction = jest.fn();
+  const onUnsafeAction = jest.fn();
+
+  ref.current!.addListener('state', onState);
+  ref.current!.addListener('action', onAction);
+  ref.current!.addListener('unhandledAction', onUnhandledAction);
+  ref.current!.addListener('__unsafe_action__', onUnsafeAction);
+
+  act(() => ref.current!.navigate('bar'));
+
+  expect(onState).toBeCalledTimes(1);
+  expect(onState.mock.calls[0][0].data.state).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        { key: 'foo', name: 'foo' },
+        { key: 'bar', name: 'bar' },
+      ],
+    })
+  );
+
+  expect(onAction).toBeCalledTimes(1);
+  expect(onAction.mock.calls[0][0].data).toEqual({
+    action: { type: 'NAVIGATE', payload: { name: 'bar' } },
+    handled: true,
+  });
+
+  expect(onUnsafeAction).toBeCalledTimes(1);
+  expect(onUnsafeAction.mock.calls[0][0].data).toEqual({
+    action: { type: 'NAVIGATE', payload: { name: 'bar' } },
+    noop: false,
+  });
+
+  act(() => ref.current!.dispatch({ type: 'NOOP' }));
+
+  expect(onUnsafeAction).toBeCalledTimes(2);
+  expect(onUnsafeAction.mock.calls[1][0].data).toEqual({
+    action: { type: 'NOOP' },
+    noop: true,
+  });
+
+  act(() => ref.current!.navigate('baz'));
+
+  expect(onAction).toBeCalledTimes(3);
+  expect(onAction.mock.calls[2][0].data).toEqual({
+    action: { type: 'NAVIGATE', payload: { name: 'baz' } },
+    handled: false,
+  });
+
+  expect(onUnhandledAction).toBeCalledTimes(1);
+  expect(onUnhandledAction.mock.calls[0][0].data).toEqual({
+    action: { type: 'NAVIGATE', payload: { name: 'baz' } },
+  });
+
+  expect(onUnsafeAction).toBeCalledTimes(2);
+  expect(onState).toBeCalledTimes(1);
+});
+
+it('emits an error event when a router or a middleware throws with ref', () => {
+  function TestRouter(options: DefaultRouterOptions) {
+    const router = MockRouter(options);
+
+    return {
+      ...router,
+      getStateForAction(state: any, action: any, options: any) {
+        if (action.type === 'ROUTER_ERROR') {
+          throw new Error('The router failed');
+        }
+
+        return router.getStateForAction(state, action, options);
+      },
+    };
+  }
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(TestRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  let delayed: (() => void) | undefined;
+
+  // The error is thrown while rendering the new state, so the tree needs to be rendered again for each action
+  const renderWithErrorListener = () => {
+    const ref = React.createRef<NavigationContainerRef>();
+    const onError = jest.fn();
+
+    render(
+      <NavigationContainer
+        ref={ref}
+        middleware={[
+          ({ action }, next) => {
+            if (action.type === 'MIDDLEWARE_ERROR') {
+              throw new Error('The middleware failed');
+            }
+
+            if (action.type === 'DELAYED_ROUTER_ERROR') {
+              delayed = () => next({ type: 'ROUTER_ERROR' });
+
+              return true;
+            }
+
+            return next(action);
+          },
+        ]}
+      >
+        <TestNavigator>
+          <Screen name="foo">{() => null}</Screen>
+          <Screen name="bar">{() => null}</Screen>
+        </TestNavigator>
+      </NavigationContainer>
+    );
+
+    ref.current!.addListener('error', onError);
+
+    return { ref, onError };
+  };
+
+  // React logs the errors thrown while rendering
+  const error = console.error;
+
+  console.error = () => undefined;
+
+  const first = renderWithErrorListener();
+
+  act(() => first.ref.current!.navigate('bar'));
+
+  expect(first.onError).not.toBeCalled();
+
+  expect(() =>
+    act(() => first.ref.current!.dispatch({ type: 'ROUTER_ERROR' }))
+  ).toThrow('The router failed');
+
+  expect(first.onError).toBeCalledTimes(1);
+  expect(first.onError.mock.calls[0][0].data).toEqual({
+    action: { type: 'ROUTER_ERROR' },
+    error: new Error('The router failed'),
+  });
+
+  const second = renderWithErrorListener();
+
+  expect(() =>
+    act(() => second.ref.current!.dispatch({ type: 'MIDDLEWARE_ERROR' }))
+  ).toThrow('The middleware failed');
+
+  expect(second.onError).toBeCalledTimes(1);
+  expect(second.onError.mock.calls[0][0].data).toEqual({
+    action: { type: 'MIDDLEWARE_ERROR' },
+    error: new Error('The middleware failed'),
+  });
+
+  const third = renderWithErrorListener();
+
+  act(() => third.ref.current!.dispatch({ type: 'DELAYED_ROUTER_ERROR' }));
+
+  expect(third.onError).not.toBeCalled();
+  expect(() => act(() => delayed!())).toThrow('The router failed');
+
+  expect(third.onError).toBeCalledTimes(1);
+  expect(third.onError.mock.calls[0][0].data).toEqual({
+    action: { type: 'ROUTER_ERROR' },
+    error: new Error('The router failed'),
+  });
+
+  console.error = error;
+});
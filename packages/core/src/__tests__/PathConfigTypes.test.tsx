@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+const MARKER = '// @ts-ignore expect-error';
+
+it('fails to compile invalid linking configs', () => {
+  const root = path.resolve(__dirname, '../../../..');
+  const fixture = path.join(__dirname, '__fixtures__', 'PathConfigTypes.tsx');
+
+  const { config } = ts.readConfigFile(
+    path.join(root, 'tsconfig.json'),
+    ts.sys.readFile
+  );
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root);
+
+  const source = fs.readFileSync(fixture, 'utf8');
+
+  // Line numbers (0-based) of the lines following the markers
+  const expected = source
+    .split('\n')
+    .map((line, index) => (line.trim() === MARKER ? index + 1 : -1))
+    .filter(line => line !== -1);
+
+  expect(expected).toHaveLength(6);
+
+  // Compile the fixture without the markers, so that the errors aren't ignored
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    path.resolve(fileName) === fixture
+      ? ts.createSourceFile(
+          fileName,
+          source.split(MARKER).join('//'),
+          languageVersion
+        )
+      : getSourceFile(fileName, languageVersion, ...rest);
+
+  const program = ts.createProgram([fixture], options, host);
+
+  const lines = ts
+    .getPreEmitDiagnostics(program)
+    .filter(
+      diagnostic =>
+        diagnostic.file !== undefined &&
+        path.resolve(diagnostic.file.fileName) === fixture
+    )
+    .map(
+      diagnostic =>
+        diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start!).line
+    );
+
+  expect(Array.from(new Set(lines)).sort((a, b) => a - b)).toEqual(expected);
+}, 60000);
@@ -0,0 +1,152 @@
+import {
+  renameRoute,
+  transformParams,
+  moveRouteInto,
+  moveRouteOutOf,
+} from '../StateMigrations';
+
+it('renames routes in nested states', () => {
+  expect(
+    renameRoute(
+      'foo',
+      'qux'
+    )({
+      routes: [
+        { name: 'foo' },
+        {
+          name: 'bar',
+          state: { routes: [{ name: 'foo', params: { answer: 42 } }] },
+        },
+      ],
+    })
+  ).toEqual({
+    routes: [
+      { name: 'qux' },
+      {
+        name: 'bar',
+        state: { routes: [{ name: 'qux', params: { answer: 42 } }] },
+      },
+    ],
+  });
+});
+
+it('transforms params of matching routes', () => {
+  expect(
+    transformParams('foo', (params: any) => ({ id: String(params.id) }))({
+      routes: [
+        { name: 'foo', params: { id: 42 } },
+        { name: 'bar', params: { id: 42 } },
+      ],
+    })
+  ).toEqual({
+    routes: [
+      { name: 'foo', params: { id: '42' } },
+      { name: 'bar', params: { id: 42 } },
+    ],
+  });
+});
+
+it('moves a route into a new nested state', () => {
+  expect(
+    moveRouteInto(
+      'bar',
+      'baz'
+    )({
+      index: 1,
+      routes: [
+        { name: 'foo' },
+        { name: 'bar', params: { answer: 42 } },
+        { name: 'qux' },
+      ],
+    })
+  ).toEqual({
+    index: 1,
+    routes: [
+      { name: 'foo' },
+      {
+        name: 'baz',
+        state: { index: 0, routes: [{ name: 'bar', params: { answer: 42 } }] },
+      },
+      { name: 'qux' },
+    ],
+  });
+});
+
+it('moves a route into an existing nested state', () => {
+  expect(
+    moveRouteInto(
+      'bar',
+      'baz'
+    )({
+      index: 2,
+      routes: [
+        { name: 'baz', state: { index: 0, routes: [{ name: 'lex' }] } },
+        { name: 'foo' },
+        { name: 'bar' },
+      ],
+    })
+  ).toEqual({
+    index: 0,
+    routes: [
+      {
+        name: 'baz',
+        state: { index: 1, routes: [{ name: 'lex' }, { name: 'bar' }] },
+      },
+      { name: 'foo' },
+    ],
+  });
+});
+
+it("doesn't move a route which is already nested", () => {
+  const state = {
+    routes: [{ name: 'baz', state: { routes: [{ name: 'bar' }] } }],
+  };
+
+  expect(moveRouteInto('bar', 'baz')(state)).toEqual(state);
+});
+
+it('moves a route out of a nested state', () => {
+  expect(
+    moveRouteOutOf(
+      'bar',
+      'baz'
+    )({
+      index: 0,
+      routes: [
+        {
+          name: 'baz',
+          state: { index: 1, routes: [{ name: 'lex' }, { name: 'bar' }] },
+        },
+        { name: 'foo' },
+      ],
+    })
+  ).toEqual({
+    index: 1,
+    routes: [
+      { name: 'baz', state: { index: 0, routes: [{ name: 'lex' }] } },
+      { name: 'bar' },
+      { name: 'foo' },
+    ],
+  });
+});
+
+it('removes the nested state when moving out its only route', () => {
+  expect(
+    moveRouteOutOf(
+      'bar',
+      'baz'
+    )({
+      index: 1,
+      routes: [
+        { name: 'foo' },
+        {
+          name: 'baz',
+          state: { routes: [{ name: 'bar', params: { id: 1 } }] },
+        },
+      ],
+    })
+  ).toEqual({
+    index: 1,
+    routes: [{ name: 'foo' }, { name: 'bar', params: { id: 1 } }],
+  });
+});
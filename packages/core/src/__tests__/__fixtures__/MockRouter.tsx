@@ -95,7 +95,7 @@ export default function MockRouter(options: DefaultRouterOptions) {
       return { ...state, index };
     },
 
-    getStateForAction(state, action) {
+    getStateForAction(state, action, options) {
       switch (action.type) {
         case 'UPDATE':
           return { ...state };
@@ -133,7 +133,7 @@ export default function MockRouter(options: DefaultRouterOptions) {
         }
 
         default:
-          return BaseRouter.getStateForAction(state, action);
+          return BaseRouter.getStateForAction(state, action, options);
       }
     },
 
@@ -0,0 +1,76 @@
+import { PathConfigMap, NavigatorScreenParams } from '../../types';
+
+/**
+ * Linking configs which are type-checked with `tsc`.
+ * Each property after `// @ts-ignore expect-error` must fail to compile, which is verified in `PathConfigTypes.test.tsx`.
+ */
+
+type SettingsParamList = {
+  Profile: { id: number };
+  Account: undefined;
+};
+
+type RootParamList = {
+  Home: undefined;
+  Settings: NavigatorScreenParams<SettingsParamList>;
+  User: { id: string };
+};
+
+export const valid: PathConfigMap<RootParamList> = {
+  Home: '',
+  Settings: {
+    path: 'settings',
+    screens: {
+      Profile: {
+        path: 'profile/:id',
+        parse: { id: Number },
+        stringify: { id: (id: number) => String(id) },
+      },
+      Account: 'account',
+    },
+  },
+  User: {
+    path: 'user/:id',
+    query: { exclude: ['id'] },
+  },
+};
+
+export const untyped: PathConfigMap = {
+  Home: {
+    path: 'home',
+    parse: { anything: Number },
+    screens: {
+      Feed: { path: 'feed/:page', parse: { page: Number } },
+    },
+  },
+};
+
+export const invalidRouteName: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  Hom: '',
+};
+
+export const invalidNestedRouteName: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  Settings: { screens: { Profle: 'profile' } },
+};
+
+export const invalidParseKey: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  User: { path: 'user/:id', parse: { di: String } },
+};
+
+export const invalidNestedParseKey: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  Settings: { screens: { Profile: { parse: { di: Number } } } },
+};
+
+export const invalidNestedParseResult: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  Settings: { screens: { Profile: { parse: { id: (id: string) => id } } } },
+};
+
+export const invalidQueryParam: PathConfigMap<RootParamList> = {
+  // @ts-ignore expect-error
+  User: { query: { exclude: ['name'] } },
+};
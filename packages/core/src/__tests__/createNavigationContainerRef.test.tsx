@@ -0,0 +1,156 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import Screen from '../Screen';
+import NavigationContainer from '../NavigationContainer';
+import useNavigationBuilder from '../useNavigationBuilder';
+import createNavigationContainerRef from '../createNavigationContainerRef';
+import MockRouter, { MockRouterKey } from './__fixtures__/MockRouter';
+import { NavigationContainerRef } from '../types';
+
+beforeEach(() => (MockRouterKey.current = 0));
+
+const TestNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+it('queues actions until the container is ready', () => {
+  const navigationRef = createNavigationContainerRef();
+  const onReady = jest.fn();
+  const onStateChange = jest.fn();
+
+  navigationRef.addListener('ready', onReady);
+
+  expect(navigationRef.isReady()).toBe(false);
+  expect(navigationRef.getRootState()).toBe(undefined);
+  expect(navigationRef.canGoBack()).toBe(false);
+
+  navigationRef.navigate('bar', { answer: 42 });
+
+  const element = (
+    <NavigationContainer ref={navigationRef} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  const root = render(element);
+
+  expect(onReady).toBeCalledTimes(1);
+  expect(navigationRef.isReady()).toBe(true);
+
+  // The state change from the queued action is applied after the effects are flushed
+  act(() => undefined);
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(navigationRef.getRootState()).toEqual({
+    index: 1,
+    key: '0',
+    routeNames: ['foo', 'bar'],
+    routes: [
+      { key: 'foo', name: 'foo' },
+      { key: 'bar', name: 'bar', params: { answer: 42 } },
+    ],
+    stale: false,
+    type: 'test',
+  });
+
+  act(() => navigationRef.navigate('foo'));
+
+  expect(onStateChange).toBeCalledTimes(2);
+  expect(navigationRef.getRootState()!.index).toBe(0);
+
+  root.update(element);
+
+  expect(onReady).toBeCalledTimes(1);
+});
+
+it('is not ready after the container unmounts', () => {
+  const navigationRef = createNavigationContainerRef();
+
+  const root = render(
+    <NavigationContainer ref={navigationRef}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  expect(navigationRef.isReady()).toBe(true);
+  expect(navigationRef.current).not.toBe(null);
+
+  root.unmount();
+
+  expect(navigationRef.isReady()).toBe(false);
+  expect(navigationRef.current).toBe(null);
+  expect(navigationRef.getRootState()).toBe(undefined);
+});
+
+it('removes ready listeners', () => {
+  const navigationRef = createNavigationContainerRef();
+  const onReady = jest.fn();
+
+  const unsubscribe = navigationRef.addListener('ready', onReady);
+
+  unsubscribe();
+
+  render(
+    <NavigationContainer ref={navigationRef}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  expect(navigationRef.isReady()).toBe(true);
+  expect(onReady).not.toBeCalled();
+});
+
+it('forwards events of the container', () => {
+  const navigationRef = createNavigationContainerRef();
+  const onState = jest.fn();
+
+  navigationRef.addListener('state', onState);
+
+  render(
+    <NavigationContainer ref={navigationRef}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => navigationRef.navigate('bar'));
+
+  expect(onState).toBeCalledTimes(1);
+  expect(onState.mock.calls[0][0].data.state.index).toBe(1);
+});
+
+it('dispatches queued actions when set to a container which is already ready', () => {
+  const navigationRef = createNavigationContainerRef();
+  const containerRef = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={containerRef}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  navigationRef.navigate('bar');
+
+  expect(navigationRef.isReady()).toBe(false);
+
+  act(() => {
+    navigationRef.current = containerRef.current;
+  });
+
+  expect(navigationRef.isReady()).toBe(true);
+  expect(navigationRef.getRootState()!.index).toBe(1);
+});
@@ -0,0 +1,176 @@
+import createWebSocketTransport from '../createWebSocketTransport';
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  url: string;
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | undefined;
+  onmessage: ((e: { data: any }) => void) | undefined;
+  onerror: (() => void) | undefined;
+  onclose: (() => void) | undefined;
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen && this.onopen();
+  }
+
+  fail() {
+    this.readyState = 3;
+    this.onerror && this.onerror();
+    this.onclose && this.onclose();
+  }
+}
+
+beforeEach(() => {
+  MockWebSocket.instances = [];
+  // @ts-ignore
+  global.WebSocket = MockWebSocket;
+});
+
+afterEach(() => {
+  // @ts-ignore
+  delete global.WebSocket;
+});
+
+it('connects lazily to the relay', () => {
+  const transport = createWebSocketTransport();
+
+  expect(MockWebSocket.instances).toHaveLength(0);
+
+  transport.init({ index: 0 });
+
+  expect(MockWebSocket.instances).toHaveLength(1);
+  expect(MockWebSocket.instances[0].url).toBe('ws://localhost:8098');
+
+  transport.send({ type: 'NAVIGATE' }, { index: 1 });
+
+  expect(MockWebSocket.instances).toHaveLength(1);
+});
+
+it('queues messages until the connection is open', () => {
+  const transport = createWebSocketTransport({ url: 'ws://10.0.2.2:9000' });
+
+  transport.init({ index: 0 });
+
+  const socket = MockWebSocket.instances[0];
+
+  expect(socket.url).toBe('ws://10.0.2.2:9000');
+  expect(socket.sent).toEqual([]);
+
+  socket.open();
+
+  transport.send({ type: 'NAVIGATE' }, { index: 1 });
+
+  expect(socket.sent.map(data => JSON.parse(data))).toEqual([
+    { type: 'INIT', state: { index: 0 } },
+    { type: 'ACTION', action: { type: 'NAVIGATE' }, state: { index: 1 } },
+  ]);
+});
+
+it('forwards messages from the relay to the listeners', () => {
+  const transport = createWebSocketTransport();
+  const listener = jest.fn();
+
+  const unsubscribe = transport.subscribe(listener);
+  const socket = MockWebSocket.instances[0];
+
+  socket.onmessage!({
+    data: JSON.stringify({ type: 'DISPATCH', state: '{}' }),
+  });
+  socket.onmessage!({ data: 'not json' });
+
+  expect(listener).toBeCalledTimes(1);
+  expect(listener).toBeCalledWith({ type: 'DISPATCH', state: '{}' });
+
+  unsubscribe();
+
+  socket.onmessage!({ data: JSON.stringify({ type: 'DISPATCH' }) });
+
+  expect(listener).toBeCalledTimes(1);
+});
+
+it('closes the connection', () => {
+  const transport = createWebSocketTransport();
+
+  transport.init({});
+  transport.close();
+
+  expect(MockWebSocket.instances[0].readyState).toBe(3);
+
+  transport.init({});
+
+  expect(MockWebSocket.instances).toHaveLength(2);
+});
+
+it('reconnects when the relay is closed', () => {
+  const transport = createWebSocketTransport();
+
+  transport.init({ index: 0 });
+
+  MockWebSocket.instances[0].fail();
+
+  for (let i = 1; i <= 20; i++) {
+    transport.send({ type: 'NAVIGATE' }, { index: i });
+  }
+
+  expect(MockWebSocket.instances).toHaveLength(2);
+
+  const socket = MockWebSocket.instances[1];
+
+  socket.open();
+
+  const sent = socket.sent.map(data => JSON.parse(data));
+
+  // The INIT message is kept when the actions are trimmed
+  expect(sent).toHaveLength(11);
+  expect(sent[0]).toEqual({ type: 'INIT', state: { index: 0 } });
+  expect(sent[1]).toEqual({
+    type: 'ACTION',
+    action: { type: 'NAVIGATE' },
+    state: { index: 11 },
+  });
+  expect(sent[10]).toEqual({
+    type: 'ACTION',
+    action: { type: 'NAVIGATE' },
+    state: { index: 20 },
+  });
+
+  socket.fail();
+
+  transport.send({ type: 'NAVIGATE' }, { index: 21 });
+
+  expect(MockWebSocket.instances).toHaveLength(3);
+});
+
+it('only keeps the actions after the latest INIT message', () => {
+  const transport = createWebSocketTransport();
+
+  transport.init({ index: 0 });
+  transport.send({ type: 'NAVIGATE' }, { index: 1 });
+  transport.init({ index: 2 });
+  transport.send({ type: 'NAVIGATE' }, { index: 3 });
+
+  const socket = MockWebSocket.instances[0];
+
+  socket.open();
+
+  expect(socket.sent.map(data => JSON.parse(data))).toEqual([
+    { type: 'INIT', state: { index: 2 } },
+    { type: 'ACTION', action: { type: 'NAVIGATE' }, state: { index: 3 } },
+  ]);
+});
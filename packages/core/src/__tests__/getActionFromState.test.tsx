@@ -0,0 +1,95 @@
+import getActionFromState from '../getActionFromState';
+import getStateFromPath from '../getStateFromPath';
+
+it('converts state to a navigate action', () => {
+  expect(
+    getActionFromState({
+      routes: [{ name: 'foo', params: { answer: 42 } }],
+    })
+  ).toEqual({
+    type: 'NAVIGATE',
+    payload: { name: 'foo', params: { answer: 42 } },
+  });
+
+  expect(getActionFromState({ routes: [{ name: 'foo' }] })).toEqual({
+    type: 'NAVIGATE',
+    payload: { name: 'foo' },
+  });
+});
+
+it('converts nested state to a navigate action with screen and params', () => {
+  expect(
+    getActionFromState({
+      routes: [
+        {
+          name: 'foo',
+          params: { count: 10 },
+          state: {
+            routes: [
+              {
+                name: 'bar',
+                state: {
+                  routes: [{ name: 'baz', params: { answer: 42 } }],
+                },
+              },
+            ],
+          },
+        },
+      ],
+    })
+  ).toEqual({
+    type: 'NAVIGATE',
+    payload: {
+      name: 'foo',
+      params: {
+        count: 10,
+        screen: 'bar',
+        params: {
+          screen: 'baz',
+          params: { answer: 42 },
+        },
+      },
+    },
+  });
+});
+
+it('converts state parsed from a path to a navigate action', () => {
+  const state = getStateFromPath('/chat/jane/42', {
+    Home: {
+      screens: {
+        Chat: {
+          path: 'chat/:author/:id',
+          parse: { id: Number },
+        },
+      },
+    },
+  });
+
+  expect(getActionFromState(state!)).toEqual({
+    type: 'NAVIGATE',
+    payload: {
+      name: 'Home',
+      params: {
+        screen: 'Chat',
+        params: { author: 'jane', id: 42 },
+      },
+    },
+  });
+});
+
+it("returns undefined if the state can't be represented with a navigate action", () => {
+  expect(
+    getActionFromState({ routes: [{ name: 'foo' }, { name: 'bar' }] })
+  ).toBeUndefined();
+
+  expect(
+    getActionFromState({
+      routes: [
+        {
+          name: 'foo',
+          state: { index: 1, routes: [{ name: 'bar' }, { name: 'baz' }] },
+        },
+      ],
+    })
+  ).toBeUndefined();
+});
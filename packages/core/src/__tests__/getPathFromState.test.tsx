@@ -1,4 +1,5 @@
 import getPathFromState from '../getPathFromState';
+import getStateFromPath from '../getStateFromPath';
 
 it('converts state to path string', () => {
   expect(
@@ -87,3 +88,201 @@ it('handles route without param', () => {
     })
   ).toBe('/foo/bar');
 });
+
+it('converts state to path string with nested config', () => {
+  const config = {
+    Root: {
+      screens: {
+        Home: {
+          path: 'home',
+          screens: {
+            Feed: '',
+            Chat: 'chat/:author',
+          },
+        },
+        Settings: {
+          path: 'settings',
+          screens: {
+            Profile: {
+              path: 'profile/:id',
+              stringify: { id: (id: number) => `u${id}` },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  expect(
+    getPathFromState(
+      {
+        routes: [
+          {
+            name: 'Root',
+            state: {
+              index: 1,
+              routes: [
+                { name: 'Home' },
+                {
+                  name: 'Settings',
+                  state: {
+                    routes: [
+                      { name: 'Profile', params: { id: 42, tab: 'posts' } },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      config
+    )
+  ).toBe('/settings/profile/u42?tab=posts');
+
+  expect(
+    getPathFromState(
+      {
+        routes: [
+          {
+            name: 'Root',
+            state: {
+              routes: [
+                {
+                  name: 'Home',
+                  state: { routes: [{ name: 'Feed' }] },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      config
+    )
+  ).toBe('/home');
+});
+
+it('handles optional params and wildcards', () => {
+  const config = {
+    User: 'user/:id?/:tab?',
+    Files: 'files/*path',
+    NotFound: '*',
+  };
+
+  expect(
+    getPathFromState(
+      { routes: [{ name: 'User', params: { id: 42, tab: 'posts' } }] },
+      config
+    )
+  ).toBe('/user/42/posts');
+
+  expect(
+    getPathFromState({ routes: [{ name: 'User', params: { id: 42 } }] }, config)
+  ).toBe('/user/42');
+
+  expect(getPathFromState({ routes: [{ name: 'User' }] }, config)).toBe(
+    '/user'
+  );
+
+  expect(
+    getPathFromState(
+      {
+        routes: [
+          { name: 'Files', params: { path: 'photos/my cat.jpg', size: 'l' } },
+        ],
+      },
+      config
+    )
+  ).toBe('/files/photos/my%20cat.jpg?size=l');
+
+  expect(getPathFromState({ routes: [{ name: 'NotFound' }] }, config)).toBe(
+    '/'
+  );
+
+  expect(
+    getPathFromState(
+      { routes: [{ name: 'NotFound', params: { '*': 'some/unknown page' } }] },
+      config
+    )
+  ).toBe('/some/unknown%20page');
+});
+
+it('encodes arrays and objects in the query string', () => {
+  expect(
+    getPathFromState(
+      {
+        routes: [
+          {
+            name: 'Posts',
+            params: { tags: ['cats', 'dogs'], filter: { author: 'jane' } },
+          },
+        ],
+      },
+      {
+        Posts: { path: 'posts', query: { arrayFormat: 'bracket' } },
+      }
+    )
+  ).toBe(
+    `/posts?filter=${encodeURIComponent(
+      JSON.stringify({ author: 'jane' })
+    )}&tags[]=cats&tags[]=dogs`
+  );
+
+  expect(
+    getPathFromState(
+      { routes: [{ name: 'Posts', params: { ids: [1, 2] } }] },
+      { Posts: { path: 'posts', query: { arrayFormat: 'comma' } } }
+    )
+  ).toBe('/posts?ids=1,2');
+});
+
+it('leaves out excluded params and keeps the params of parent screens', () => {
+  const config = {
+    Home: {
+      path: 'home',
+      query: { params: ['sort'] },
+      screens: {
+        Feed: {
+          path: 'feed',
+          query: { exclude: ['token'], json: ['filter'] },
+        },
+      },
+    },
+  };
+
+  const path = getPathFromState(
+    {
+      routes: [
+        {
+          name: 'Home',
+          params: { sort: 'asc', count: 10 },
+          state: {
+            routes: [
+              {
+                name: 'Feed',
+                params: { page: 2, token: 'secret', filter: ['a'] },
+              },
+            ],
+          },
+        },
+      ],
+    },
+    config
+  );
+
+  expect(path).toBe(
+    `/home/feed?sort=asc&filter=${encodeURIComponent('["a"]')}&page=2`
+  );
+
+  expect(getStateFromPath(path, config)).toEqual({
+    routes: [
+      {
+        name: 'Home',
+        params: { sort: 'asc' },
+        state: {
+          routes: [{ name: 'Feed', params: { page: '2', filter: ['a'] } }],
+        },
+      },
+    ],
+  });
+});
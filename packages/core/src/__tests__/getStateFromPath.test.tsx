@@ -1,4 +1,5 @@
 import getStateFromPath from '../getStateFromPath';
+import getPathFromState from '../getPathFromState';
 
 it('converts path string to initial state', () => {
   expect(
@@ -127,3 +128,564 @@ it('handles route without param', () => {
 it('returns undefined for invalid path', () => {
   expect(getStateFromPath('//')).toBe(undefined);
 });
+
+it('converts path string to initial state with nested config', () => {
+  const config = {
+    Root: {
+      screens: {
+        Home: {
+          path: 'home',
+          screens: {
+            Feed: '',
+            Chat: {
+              path: 'chat/:author',
+              parse: { count: Number },
+            },
+          },
+        },
+        Settings: {
+          path: 'settings',
+          screens: {
+            Profile: {
+              path: 'profile/:id',
+              parse: { id: Number },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  expect(getStateFromPath('/settings/profile/42', config)).toEqual({
+    routes: [
+      {
+        name: 'Root',
+        state: {
+          routes: [
+            {
+              name: 'Settings',
+              state: {
+                routes: [{ name: 'Profile', params: { id: 42 } }],
+              },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  expect(getStateFromPath('/home/chat/jane?count=10', config)).toEqual({
+    routes: [
+      {
+        name: 'Root',
+        state: {
+          routes: [
+            {
+              name: 'Home',
+              state: {
+                routes: [
+                  { name: 'Chat', params: { author: 'jane', count: 10 } },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  // The nested screen with empty path is preferred over its parent
+  expect(getStateFromPath('/home', config)).toEqual({
+    routes: [
+      {
+        name: 'Root',
+        state: {
+          routes: [
+            {
+              name: 'Home',
+              state: { routes: [{ name: 'Feed' }] },
+            },
+          ],
+        },
+      },
+    ],
+  });
+});
+
+it('assigns params to the screens which specify them in nested config', () => {
+  expect(
+    getStateFromPath('/users/jane/posts/42', {
+      User: {
+        path: 'users/:name',
+        screens: {
+          Post: {
+            path: 'posts/:id',
+            parse: { id: Number },
+          },
+        },
+      },
+    })
+  ).toEqual({
+    routes: [
+      {
+        name: 'User',
+        params: { name: 'jane' },
+        state: {
+          routes: [{ name: 'Post', params: { id: 42 } }],
+        },
+      },
+    ],
+  });
+});
+
+it('throws for conflicting patterns in nested config', () => {
+  expect(() =>
+    getStateFromPath('/foo', {
+      Home: {
+        path: 'home',
+        screens: { Profile: 'profile/:id' },
+      },
+      Settings: {
+        path: '',
+        screens: { Profile: 'home/profile/:name' },
+      },
+    })
+  ).toThrowError(
+    "Found conflicting screens with the same pattern. The pattern 'home/profile/:name' resolves to both 'Home > Profile' and 'Settings > Profile'. Patterns must be unique and cannot resolve to more than one screen."
+  );
+});
+
+it('handles optional params', () => {
+  const config = {
+    User: {
+      path: 'user/:id?/:tab?',
+      parse: { id: Number },
+    },
+  };
+
+  expect(getStateFromPath('/user/42/posts', config)).toEqual({
+    routes: [{ name: 'User', params: { id: 42, tab: 'posts' } }],
+  });
+
+  expect(getStateFromPath('/user/42', config)).toEqual({
+    routes: [{ name: 'User', params: { id: 42 } }],
+  });
+
+  expect(getStateFromPath('/user', config)).toEqual({
+    routes: [{ name: 'User' }],
+  });
+});
+
+it('handles wildcards', () => {
+  const config = {
+    Files: 'files/*path',
+    Docs: 'docs/*',
+    Home: 'home',
+  };
+
+  expect(getStateFromPath('/files/photos/2019/cat.jpg', config)).toEqual({
+    routes: [{ name: 'Files', params: { path: 'photos/2019/cat.jpg' } }],
+  });
+
+  expect(getStateFromPath('/docs/getting-started/install', config)).toEqual({
+    routes: [{ name: 'Docs', params: { '*': 'getting-started/install' } }],
+  });
+
+  expect(getStateFromPath('/home', config)).toEqual({
+    routes: [{ name: 'Home' }],
+  });
+});
+
+it('handles exact matching', () => {
+  const config = {
+    Home: 'home',
+    Feed: {
+      path: 'feed',
+      exact: true,
+    },
+    Details: {
+      path: 'details',
+      exact: true,
+    },
+  };
+
+  expect(getStateFromPath('/home/details', config)).toEqual({
+    routes: [
+      {
+        name: 'Home',
+        state: { routes: [{ name: 'Details' }] },
+      },
+    ],
+  });
+
+  expect(getStateFromPath('/feed', config)).toEqual({
+    routes: [{ name: 'Feed' }],
+  });
+
+  expect(getStateFromPath('/feed/details', config)).toBe(undefined);
+});
+
+it('uses the catch-all screen for unmatched paths', () => {
+  const config = {
+    Root: {
+      screens: {
+        Home: {
+          path: 'home',
+          exact: true,
+        },
+        Profile: 'user/:id',
+        NotFound: '*path',
+      },
+    },
+  };
+
+  expect(getStateFromPath('/home', config)).toEqual({
+    routes: [{ name: 'Root', state: { routes: [{ name: 'Home' }] } }],
+  });
+
+  expect(getStateFromPath('/home/settings?tab=1', config)).toEqual({
+    routes: [
+      {
+        name: 'Root',
+        state: {
+          routes: [
+            {
+              name: 'NotFound',
+              params: { path: 'home/settings', tab: '1' },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  expect(getStateFromPath('/some/unknown/page', config)).toEqual({
+    routes: [
+      {
+        name: 'Root',
+        state: {
+          routes: [{ name: 'NotFound', params: { path: 'some/unknown/page' } }],
+        },
+      },
+    ],
+  });
+});
+
+it('returns undefined for paths which no screen matches', () => {
+  const config = {
+    Home: {
+      path: '',
+      screens: {
+        Chat: 'chat/:id',
+      },
+    },
+  };
+
+  expect(getStateFromPath('/chat/42', config)).toEqual({
+    routes: [
+      {
+        name: 'Home',
+        state: { routes: [{ name: 'Chat', params: { id: '42' } }] },
+      },
+    ],
+  });
+
+  expect(getStateFromPath('/settings/profile', config)).toBe(undefined);
+  expect(getStateFromPath('/chat/42/settings', config)).toBe(undefined);
+});
+
+it("doesn't nest the catch-all screen in screens matched before", () => {
+  const config = {
+    Chat: 'chat/:id',
+    NotFound: '*',
+  };
+
+  expect(getStateFromPath('/chat/42', config)).toEqual({
+    routes: [{ name: 'Chat', params: { id: '42' } }],
+  });
+
+  expect(getStateFromPath('/chat/42/foo', config)).toEqual({
+    routes: [{ name: 'NotFound', params: { '*': 'chat/42/foo' } }],
+  });
+
+  expect(getStateFromPath('/chat/42/foo', { Chat: 'chat/:id' })).toBe(
+    undefined
+  );
+
+  // Screens matched after a nested screen would be nested in the wrong navigator
+  expect(
+    getStateFromPath('/chat/42/settings', {
+      Home: { path: '', screens: { Chat: 'chat/:id' } },
+      Settings: 'settings',
+    })
+  ).toBe(undefined);
+});
+
+it('round trips the unmatched path with an anonymous catch-all', () => {
+  const config = {
+    Home: 'home',
+    NotFound: '*',
+  };
+
+  const state = getStateFromPath('/foo/bar/baz?page=2', config);
+
+  expect(state).toEqual({
+    routes: [{ name: 'NotFound', params: { '*': 'foo/bar/baz', page: '2' } }],
+  });
+
+  expect(getPathFromState(state!, config)).toBe('/foo/bar/baz?page=2');
+});
+
+it('decodes the params in the path', () => {
+  const config = {
+    Profile: 'user/:name',
+    NotFound: '*path',
+  };
+
+  expect(getStateFromPath('/user/jane%20doe', config)).toEqual({
+    routes: [{ name: 'Profile', params: { name: 'jane doe' } }],
+  });
+
+  [
+    {
+      path: '/user/100%25%20jane%20%26%20co',
+      route: { name: 'Profile', params: { name: '100% jane & co' } },
+    },
+    {
+      path: '/some/unknown%20page',
+      route: { name: 'NotFound', params: { path: 'some/unknown page' } },
+    },
+    {
+      path: '/discount/50%25/off',
+      route: { name: 'NotFound', params: { path: 'discount/50%/off' } },
+    },
+  ].forEach(({ path, route }) => {
+    const state = { routes: [route] };
+
+    expect(getPathFromState(state, config)).toBe(path);
+    expect(getStateFromPath(path, config)).toEqual(state);
+  });
+});
+
+it('prefers more specific patterns regardless of the order in config', () => {
+  const routes = {
+    Chat: 'chat/:id',
+    NewChat: 'chat/new',
+    NotFound: '*',
+    Chats: 'chat',
+  };
+
+  const reversed = Object.keys(routes)
+    .reverse()
+    .reduce<Record<string, string>>((acc, name) => {
+      acc[name] = routes[name as keyof typeof routes];
+      return acc;
+    }, {});
+
+  [routes, reversed].forEach(config => {
+    expect(getStateFromPath('/chat/new', config)).toEqual({
+      routes: [{ name: 'NewChat' }],
+    });
+
+    expect(getStateFromPath('/chat/42', config)).toEqual({
+      routes: [{ name: 'Chat', params: { id: '42' } }],
+    });
+
+    expect(getStateFromPath('/chat', config)).toEqual({
+      routes: [{ name: 'Chats' }],
+    });
+
+    expect(getStateFromPath('/settings', config)).toEqual({
+      routes: [{ name: 'NotFound', params: { '*': 'settings' } }],
+    });
+  });
+});
+
+it('matches patterns at segment boundaries', () => {
+  const config = { Chat: 'chat', Room: 'room' };
+
+  expect(getStateFromPath('/chatroom', config)).toBe(undefined);
+
+  expect(getStateFromPath('/chat/room', config)).toEqual({
+    routes: [{ name: 'Chat', state: { routes: [{ name: 'Room' }] } }],
+  });
+});
+
+it("doesn't rank optional params above static segments", () => {
+  const routes = {
+    User: 'user',
+    Profile: 'user/:id?/:tab?',
+  };
+
+  const reversed = {
+    Profile: routes.Profile,
+    User: routes.User,
+  };
+
+  [routes, reversed].forEach(config => {
+    expect(getStateFromPath('/user', config)).toEqual({
+      routes: [{ name: 'User' }],
+    });
+
+    expect(getStateFromPath('/user/42', config)).toEqual({
+      routes: [{ name: 'Profile', params: { id: '42' } }],
+    });
+
+    expect(getStateFromPath('/user/42/posts', config)).toEqual({
+      routes: [{ name: 'Profile', params: { id: '42', tab: 'posts' } }],
+    });
+  });
+});
+
+it('breaks ties deterministically', () => {
+  const config = {
+    Foo: ':category/latest',
+    Bar: 'news/:id',
+  };
+
+  // Both patterns have the same score, but the static segment comes first in 'news/:id'
+  expect(getStateFromPath('/news/latest', config)).toEqual({
+    routes: [{ name: 'Bar', params: { id: 'latest' } }],
+  });
+
+  expect(getStateFromPath('/sports/latest', config)).toEqual({
+    routes: [{ name: 'Foo', params: { category: 'sports' } }],
+  });
+});
+
+it('warns about shadowed patterns', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  getStateFromPath('/chat', {
+    Chat: 'chat',
+    Room: 'chat/*',
+    Settings: {
+      path: 'settings',
+      screens: { General: '' },
+    },
+  });
+
+  expect(spy).toBeCalledTimes(1);
+  expect(spy.mock.calls[0][0]).toBe(
+    "The pattern 'chat/*' for the screen 'Room' is shadowed by the pattern 'chat' for the screen 'Chat', so it'll never be matched. Make the patterns more specific or use 'exact' to change how they match."
+  );
+
+  spy.mockClear();
+
+  // Only some of the variants of a pattern with optional params are shadowed
+  getStateFromPath('/user', {
+    User: 'user',
+    Profile: 'user/:id?',
+  });
+
+  expect(spy).not.toBeCalled();
+
+  getStateFromPath('/files/a', {
+    Files: { path: 'files', exact: true },
+    File: 'files/*',
+  });
+
+  expect(spy).not.toBeCalled();
+
+  spy.mockRestore();
+});
+
+it('only checks each config once', () => {
+  const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const config = {
+    Chat: 'chat',
+    Room: 'chat/*',
+  };
+
+  expect(getStateFromPath('/chat', config)).toEqual({
+    routes: [{ name: 'Chat' }],
+  });
+  expect(getStateFromPath('/chat', config)).toEqual({
+    routes: [{ name: 'Chat' }],
+  });
+
+  expect(spy).toBeCalledTimes(1);
+
+  // A new config object is checked again
+  getStateFromPath('/chat', { ...config });
+
+  expect(spy).toBeCalledTimes(2);
+
+  spy.mockRestore();
+});
+
+it('parses arrays in the query string with the configured format', () => {
+  expect(
+    getStateFromPath('/posts?tags[]=cats&tags[]=dogs', {
+      Posts: { path: 'posts', query: { arrayFormat: 'bracket' } },
+    })
+  ).toEqual({
+    routes: [{ name: 'Posts', params: { tags: ['cats', 'dogs'] } }],
+  });
+
+  expect(
+    getStateFromPath('/posts?ids=1,2', {
+      Posts: {
+        path: 'posts',
+        parse: { ids: Number },
+        query: { arrayFormat: 'comma' },
+      },
+    })
+  ).toEqual({
+    routes: [{ name: 'Posts', params: { ids: [1, 2] } }],
+  });
+
+  expect(
+    getStateFromPath('/posts?tags=cats&tags=dogs', { Posts: 'posts' })
+  ).toEqual({
+    routes: [{ name: 'Posts', params: { tags: ['cats', 'dogs'] } }],
+  });
+});
+
+it('parses JSON params and ignores excluded params in the query string', () => {
+  expect(
+    getStateFromPath(
+      `/posts?filter=${encodeURIComponent(
+        JSON.stringify({ author: 'jane', count: 10 })
+      )}&token=secret&page=2`,
+      {
+        Posts: {
+          path: 'posts',
+          query: { json: ['filter'], exclude: ['token'] },
+        },
+      }
+    )
+  ).toEqual({
+    routes: [
+      {
+        name: 'Posts',
+        params: { filter: { author: 'jane', count: 10 }, page: '2' },
+      },
+    ],
+  });
+});
+
+it('assigns query params to the screens they belong to', () => {
+  expect(
+    getStateFromPath('/home/feed?sort=asc&page=2', {
+      Home: {
+        path: 'home',
+        query: { params: ['sort'] },
+        screens: {
+          Feed: 'feed',
+        },
+      },
+    })
+  ).toEqual({
+    routes: [
+      {
+        name: 'Home',
+        params: { sort: 'asc' },
+        state: {
+          routes: [{ name: 'Feed', params: { page: '2' } }],
+        },
+      },
+    ],
+  });
+});
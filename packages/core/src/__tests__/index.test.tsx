@@ -654,6 +654,47 @@ it('handles change in route names', () => {
   });
 });
 
+it('passes getId of the screens to the router', () => {
+  const getStateForAction = jest.fn(MockRouter({}).getStateForAction);
+
+  const CustomRouter = (options: any) => ({
+    ...MockRouter(options),
+    getStateForAction,
+  });
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(CustomRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const getId = ({ params }: any) => params && params.id;
+
+  const FooScreen = (props: any) => {
+    React.useEffect(() => {
+      props.navigation.navigate('bar', { id: '42' });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    return null;
+  };
+
+  render(
+    <NavigationContainer>
+      <TestNavigator>
+        <Screen name="foo" component={FooScreen} />
+        <Screen name="bar" component={() => null} getId={getId} />
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  expect(getStateForAction).toBeCalledWith(
+    expect.anything(),
+    expect.objectContaining({ type: 'NAVIGATE' }),
+    expect.objectContaining({ routeGetIdList: { bar: getId } })
+  );
+});
+
 it('navigates to nested child in a navigator', () => {
   const TestNavigator = (props: any): any => {
     const { state, descriptors } = useNavigationBuilder(MockRouter, props);
@@ -0,0 +1,53 @@
+import migrateState from '../migrateState';
+import { renameRoute, transformParams } from '../StateMigrations';
+
+const state = {
+  index: 1,
+  routes: [{ name: 'foo' }, { name: 'bar', params: { count: 42 } }],
+};
+
+it('runs migrations for each version in order', () => {
+  expect(
+    migrateState(state, {
+      from: 1,
+      to: 3,
+      migrations: {
+        1: renameRoute('foo', 'never'),
+        2: renameRoute('bar', 'baz'),
+        3: [
+          renameRoute('baz', 'qux'),
+          transformParams('qux', (params: any) => ({ total: params.count })),
+        ],
+      },
+    })
+  ).toEqual({
+    index: 1,
+    routes: [{ name: 'foo' }, { name: 'qux', params: { total: 42 } }],
+  });
+});
+
+it("doesn't change the state if it's already on the current version", () => {
+  expect(
+    migrateState(state, {
+      from: 2,
+      to: 2,
+      migrations: { 2: renameRoute('foo', 'bar') },
+    })
+  ).toBe(state);
+});
+
+it('returns undefined for a state saved with a newer version', () => {
+  expect(migrateState(state, { from: 3, to: 2 })).toBe(undefined);
+});
+
+it('throws if a migration is missing', () => {
+  expect(() =>
+    migrateState(state, {
+      from: 0,
+      to: 2,
+      migrations: { 1: renameRoute('foo', 'bar') },
+    })
+  ).toThrowError(
+    "Couldn't find a migration for version 2 of the navigation state. Have you added it to 'migrations'?"
+  );
+});
@@ -0,0 +1,90 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import Screen from '../Screen';
+import NavigationContainer from '../NavigationContainer';
+import useNavigationBuilder from '../useNavigationBuilder';
+import createRecorderTransport from '../createRecorderTransport';
+import MockRouter, { MockRouterKey } from './__fixtures__/MockRouter';
+import { NavigationContainerRef } from '../types';
+
+beforeEach(() => (MockRouterKey.current = 0));
+
+const TestNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+it('sends actions with the resulting states to the transport', () => {
+  const transport = createRecorderTransport();
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref} devToolsTransport={transport}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.resetRoot({ index: 0, routes: [{ name: 'foo' }] }));
+
+  expect(transport.messages).toEqual([
+    { type: 'INIT', state: undefined },
+    {
+      type: 'ACTION',
+      action: '@@UNKNOWN',
+      state: expect.objectContaining({ index: 0 }),
+    },
+    {
+      type: 'ACTION',
+      action: { type: 'NAVIGATE', payload: { name: 'bar' } },
+      state: expect.objectContaining({ index: 1 }),
+    },
+    {
+      type: 'ACTION',
+      action: '@@RESET_ROOT',
+      state: expect.objectContaining({ index: 0 }),
+    },
+  ]);
+});
+
+it('resets the state on dispatch messages from the transport', () => {
+  const transport = createRecorderTransport();
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer
+      ref={ref}
+      devToolsTransport={transport}
+      onStateChange={onStateChange}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+
+  const [, , navigated] = transport.messages;
+
+  act(() => ref.current!.navigate('foo'));
+
+  act(() =>
+    transport.receive({
+      type: 'DISPATCH',
+      state: JSON.stringify(navigated.state),
+    })
+  );
+
+  expect(ref.current!.getRootState()).toEqual(navigated.state);
+  expect(onStateChange).toBeCalledTimes(3);
+
+  // The reset from devtools isn't sent back to the devtools
+  expect(transport.messages).toHaveLength(4);
+});
@@ -0,0 +1,167 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import Screen from '../Screen';
+import NavigationContainer from '../NavigationContainer';
+import useNavigationBuilder from '../useNavigationBuilder';
+import MockRouter, { MockRouterKey } from './__fixtures__/MockRouter';
+import { NavigationContainerRef } from '../types';
+
+beforeEach(() => (MockRouterKey.current = 0));
+
+const TestNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const getFocusedName = (ref: React.RefObject<NavigationContainerRef>) => {
+  const state = ref.current!.getRootState();
+
+  return state.routes[state.index].name;
+};
+
+it('records actions with the resulting states', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref} historyRecorder={{}}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.navigate('baz'));
+
+  const { index, entries } = ref.current!.getHistory();
+
+  expect(index).toBe(2);
+  expect(entries.map(entry => entry.action)).toEqual([
+    '@@INIT',
+    { type: 'NAVIGATE', payload: { name: 'bar' } },
+    { type: 'NAVIGATE', payload: { name: 'baz' } },
+  ]);
+  expect(entries.map(entry => entry.state.index)).toEqual([0, 1, 2]);
+  expect(entries[2].timestamp).toEqual(expect.any(Number));
+  expect(JSON.parse(JSON.stringify(entries))).toEqual(entries);
+
+  entries.pop();
+
+  expect(ref.current!.getHistory().entries).toHaveLength(3);
+});
+
+it('undoes, redoes and jumps to entries', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer
+      ref={ref}
+      historyRecorder={{}}
+      onStateChange={onStateChange}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.navigate('baz'));
+
+  act(() => ref.current!.undo());
+
+  expect(getFocusedName(ref)).toBe('bar');
+  expect(ref.current!.getHistory().index).toBe(1);
+
+  act(() => ref.current!.undo());
+
+  expect(getFocusedName(ref)).toBe('foo');
+
+  // There's nothing more to undo
+  act(() => ref.current!.undo());
+
+  expect(getFocusedName(ref)).toBe('foo');
+
+  act(() => ref.current!.redo());
+
+  expect(getFocusedName(ref)).toBe('bar');
+
+  act(() => ref.current!.jumpTo(2));
+
+  expect(getFocusedName(ref)).toBe('baz');
+  expect(ref.current!.getHistory().entries).toHaveLength(3);
+  expect(onStateChange).toBeCalledTimes(6);
+});
+
+it('discards undone entries on new actions', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref} historyRecorder={{}}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.undo());
+  act(() => ref.current!.navigate('baz'));
+
+  const { index, entries } = ref.current!.getHistory();
+
+  expect(index).toBe(1);
+  expect(entries.map(entry => entry.action)).toEqual([
+    '@@INIT',
+    { type: 'NAVIGATE', payload: { name: 'baz' } },
+  ]);
+});
+
+it('drops the oldest entries when the limit is reached', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref} historyRecorder={{ limit: 2 }}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.navigate('baz'));
+
+  const { index, entries } = ref.current!.getHistory();
+
+  expect(index).toBe(1);
+  expect(entries.map(entry => entry.state.index)).toEqual([1, 2]);
+});
+
+it("doesn't record history without the option", () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <NavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current!.navigate('bar'));
+  act(() => ref.current!.undo());
+
+  expect(getFocusedName(ref)).toBe('bar');
+  expect(ref.current!.getHistory()).toEqual({ index: -1, entries: [] });
+});
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { render } from 'react-native-testing-library';
+import { render, act } from 'react-native-testing-library';
 import useNavigationBuilder from '../useNavigationBuilder';
 import NavigationContainer from '../NavigationContainer';
 import Screen from '../Screen';
@@ -7,7 +7,14 @@ import MockRouter, {
   MockActions,
   MockRouterKey,
 } from './__fixtures__/MockRouter';
-import { Router, DefaultRouterOptions, NavigationState } from '../types';
+import {
+  Router,
+  DefaultRouterOptions,
+  NavigationState,
+  NavigationAction,
+  NavigationContainerRef,
+  NavigationMiddleware,
+} from '../types';
 
 beforeEach(() => (MockRouterKey.current = 0));
 
@@ -368,3 +375,348 @@ it("doesn't crash if no navigator handled the action", () => {
 
   render(element).update(element);
 });
+
+it('passes dispatched actions through the middleware once', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const middleware = jest.fn((({ action }, next) =>
+    next(action)) as NavigationMiddleware);
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer
+      ref={ref}
+      middleware={[middleware]}
+      onStateChange={onStateChange}
+    >
+      <TestNavigator>
+        <Screen name="foo">
+          {() => (
+            <TestNavigator>
+              <Screen name="qux">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current && ref.current.navigate('bar'));
+
+  // The action is dispatched to the focused child navigator and bubbles to the parent
+  expect(middleware).toBeCalledTimes(1);
+  expect(middleware.mock.calls[0][0]).toEqual({
+    action: { type: 'NAVIGATE', payload: { name: 'bar' } },
+    state: {
+      stale: false,
+      type: 'test',
+      index: 0,
+      key: '1',
+      routeNames: ['qux'],
+      routes: [{ key: 'qux', name: 'qux' }],
+    },
+    target: '1',
+  });
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].index).toBe(1);
+});
+
+it('lets middleware rewrite actions', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const middleware: NavigationMiddleware = ({ action }, next) =>
+    next(
+      action.type === 'NAVIGATE'
+        ? ({ ...action, payload: { name: 'baz' } } as NavigationAction)
+        : action
+    );
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer
+      ref={ref}
+      middleware={[middleware]}
+      onStateChange={onStateChange}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current && ref.current.navigate('bar'));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].index).toBe(2);
+});
+
+it('lets middleware block and delay actions', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const order: string[] = [];
+  const pending: Array<() => boolean> = [];
+
+  const first: NavigationMiddleware = ({ action }, next) => {
+    order.push('first');
+
+    // Block the action until it's confirmed
+    pending.push(() => next(action));
+
+    return true;
+  };
+
+  const second: NavigationMiddleware = ({ action }, next) => {
+    order.push('second');
+
+    return next(action);
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer
+      ref={ref}
+      middleware={[first, second]}
+      onStateChange={onStateChange}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current && ref.current.navigate('bar'));
+
+  expect(order).toEqual(['first']);
+  expect(onStateChange).toBeCalledTimes(0);
+
+  let handled;
+
+  act(() => {
+    handled = pending[0]();
+  });
+
+  expect(handled).toBe(true);
+  expect(order).toEqual(['first', 'second']);
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].index).toBe(1);
+});
+
+it('emits beforeRemove and lets listeners prevent the action', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  let pendingAction: NavigationAction | undefined;
+  let hasUnsavedChanges = true;
+
+  const FooScreen = ({ navigation }: any) => {
+    React.useEffect(
+      () =>
+        navigation.addListener('beforeRemove', (e: any) => {
+          if (hasUnsavedChanges) {
+            pendingAction = e.data.action;
+            e.preventDefault();
+          }
+        }),
+      [navigation]
+    );
+
+    return null;
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo" component={FooScreen} />
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current && ref.current.replace('bar', undefined));
+
+  expect(onStateChange).toBeCalledTimes(0);
+  expect(pendingAction).toEqual({
+    type: 'REPLACE',
+    payload: { name: 'bar' },
+  });
+
+  hasUnsavedChanges = false;
+
+  act(() => ref.current && ref.current.dispatch(pendingAction!));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].routes[0]).toEqual({
+    key: expect.any(String),
+    name: 'bar',
+  });
+});
+
+it('emits beforeRemove to all screens of nested navigators', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const TestNavigatorWithAllRoutes = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map(route => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  let hasUnsavedChanges = true;
+
+  const onBeforeRemoveFocused = jest.fn();
+
+  const onBeforeRemoveUnfocused = jest.fn((e: any) => {
+    if (hasUnsavedChanges) {
+      e.preventDefault();
+    }
+  });
+
+  const createScreen = (listener: (e: any) => void) => ({
+    navigation,
+  }: any) => {
+    React.useEffect(() => navigation.addListener('beforeRemove', listener), [
+      navigation,
+    ]);
+
+    return null;
+  };
+
+  const FocusedScreen = createScreen(onBeforeRemoveFocused);
+  const UnfocusedScreen = createScreen(onBeforeRemoveUnfocused);
+
+  let rootNavigation: any;
+
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo">
+          {({ navigation }: any) => {
+            rootNavigation = navigation;
+
+            return (
+              <TestNavigatorWithAllRoutes>
+                <Screen name="baz">
+                  {() => (
+                    <TestNavigator>
+                      <Screen name="qux" component={FocusedScreen} />
+                    </TestNavigator>
+                  )}
+                </Screen>
+                <Screen name="lex" component={UnfocusedScreen} />
+              </TestNavigatorWithAllRoutes>
+            );
+          }}
+        </Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  // Replacing the route in the root navigator removes the nested navigators along with it
+  act(() => rootNavigation.replace('bar'));
+
+  expect(onStateChange).toBeCalledTimes(0);
+  expect(onBeforeRemoveFocused).toBeCalledTimes(1);
+  expect(onBeforeRemoveUnfocused).toBeCalledTimes(1);
+  expect(onBeforeRemoveUnfocused.mock.calls[0][0].data).toEqual({
+    action: expect.objectContaining({
+      type: 'REPLACE',
+      payload: { name: 'bar' },
+    }),
+  });
+
+  hasUnsavedChanges = false;
+
+  act(() => rootNavigation.replace('bar'));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].routes[0].name).toBe('bar');
+  expect(onBeforeRemoveFocused).toBeCalledTimes(2);
+  expect(onBeforeRemoveUnfocused).toBeCalledTimes(2);
+});
+
+it('calls beforeEnter before focusing a screen', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  let isLoggedIn = false;
+
+  const beforeEnter = jest.fn(() => isLoggedIn);
+
+  const ref = React.createRef<NavigationContainerRef>();
+  const onStateChange = jest.fn();
+
+  render(
+    <NavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar" beforeEnter={beforeEnter}>
+          {() => null}
+        </Screen>
+      </TestNavigator>
+    </NavigationContainer>
+  );
+
+  act(() => ref.current && ref.current.navigate('bar', { answer: 42 }));
+
+  expect(onStateChange).toBeCalledTimes(0);
+  expect(beforeEnter).toBeCalledWith({
+    route: { key: 'bar', name: 'bar', params: { answer: 42 } },
+    action: {
+      type: 'NAVIGATE',
+      payload: { name: 'bar', params: { answer: 42 } },
+    },
+  });
+
+  isLoggedIn = true;
+
+  act(() => ref.current && ref.current.navigate('bar'));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange.mock.calls[0][0].index).toBe(1);
+
+  // The guard isn't called when the route is already focused
+  act(() => ref.current && ref.current.setParams({ answer: 42 }));
+
+  expect(beforeEnter).toBeCalledTimes(2);
+});
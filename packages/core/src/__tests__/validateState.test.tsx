@@ -0,0 +1,188 @@
+import validateState from '../validateState';
+
+it("doesn't report problems for a valid state", () => {
+  expect(
+    validateState(
+      {
+        index: 1,
+        routes: [
+          { key: 'foo', name: 'foo', params: { id: 42, tags: ['a', 'b'] } },
+          {
+            name: 'bar',
+            state: {
+              routeNames: ['qux', 'lex'],
+              routes: [{ name: 'qux' }, { name: 'lex', params: {} }],
+            },
+          },
+        ],
+      },
+      { routeNames: ['foo', 'bar'] }
+    )
+  ).toEqual([]);
+});
+
+it('reports missing fields', () => {
+  expect(validateState(null)).toEqual([
+    {
+      path: '$',
+      message: "Expected the state to be an object, but got 'null'.",
+    },
+  ]);
+
+  expect(validateState({ index: 0 })).toEqual([
+    {
+      path: '$.routes',
+      message: 'Expected the routes to be a non-empty array.',
+    },
+  ]);
+
+  expect(
+    validateState({
+      routes: [{ key: 'foo' }, { name: 'bar', state: { routes: [] } }],
+    })
+  ).toEqual([
+    {
+      path: '$.routes[0].name',
+      message: "Expected the route name to be a string, but got 'undefined'.",
+    },
+    {
+      path: '$.routes[1].state.routes',
+      message: 'Expected the routes to be a non-empty array.',
+    },
+  ]);
+});
+
+it('reports out of bounds index', () => {
+  expect(
+    validateState({
+      index: 0,
+      routes: [
+        {
+          name: 'foo',
+          state: { index: 2, routes: [{ name: 'bar' }, { name: 'baz' }] },
+        },
+      ],
+    })
+  ).toEqual([
+    {
+      path: '$.routes[0].state.index',
+      message:
+        "Expected the index to be an integer between 0 and 1, but got '2'.",
+    },
+  ]);
+
+  expect(validateState({ index: 0.5, routes: [{ name: 'foo' }] })).toEqual([
+    {
+      path: '$.index',
+      message:
+        "Expected the index to be an integer between 0 and 0, but got '0.5'.",
+    },
+  ]);
+});
+
+it('reports duplicate keys anywhere in the tree', () => {
+  expect(
+    validateState({
+      routes: [
+        { key: 'foo', name: 'foo' },
+        {
+          key: 'bar',
+          name: 'bar',
+          state: { routes: [{ key: 'foo', name: 'baz' }] },
+        },
+      ],
+    })
+  ).toEqual([
+    {
+      path: '$.routes[1].state.routes[0].key',
+      message:
+        "The route key 'foo' is already used by the route at '$.routes[0]'. Route keys need to be unique.",
+    },
+  ]);
+});
+
+it('reports unknown route names', () => {
+  expect(
+    validateState(
+      {
+        routes: [
+          { name: 'foo' },
+          {
+            name: 'bar',
+            state: { routeNames: ['baz'], routes: [{ name: 'qux' }] },
+          },
+        ],
+      },
+      { routeNames: ['bar'] }
+    )
+  ).toEqual([
+    {
+      path: '$.routes[0].name',
+      message:
+        "The route name 'foo' doesn't match any of the screens in the navigator ('bar').",
+    },
+    {
+      path: '$.routes[1].state.routes[0].name',
+      message:
+        "The route name 'qux' doesn't match any of the screens in the navigator ('baz').",
+    },
+  ]);
+});
+
+it('reports non-serializable params', () => {
+  class User {}
+
+  expect(
+    validateState({
+      routes: [
+        {
+          name: 'foo',
+          params: {
+            onPress: () => {},
+            user: new User(),
+            items: [1, { date: new Date(0) }],
+            nested: { valid: true, symbol: Symbol('test') },
+          },
+        },
+      ],
+    })
+  ).toEqual([
+    {
+      path: '$.routes[0].params.onPress',
+      message: "Found non-serializable value of type 'function'.",
+    },
+    {
+      path: '$.routes[0].params.user',
+      message:
+        "Found non-serializable instance of class 'User'. Only plain objects and arrays can be serialized.",
+    },
+    {
+      path: '$.routes[0].params.items[1].date',
+      message:
+        "Found non-serializable instance of class 'Date'. Only plain objects and arrays can be serialized.",
+    },
+    {
+      path: '$.routes[0].params.nested.symbol',
+      message: "Found non-serializable value of type 'symbol'.",
+    },
+  ]);
+});
+
+it("doesn't report non-serializable params if disabled", () => {
+  expect(
+    validateState(
+      {
+        routes: [
+          { name: 'foo', params: { onPress: () => {} } },
+          { name: 'bar', params: 42 },
+        ],
+      },
+      { params: false }
+    )
+  ).toEqual([
+    {
+      path: '$.routes[1].params',
+      message: 'Expected the params to be an object.',
+    },
+  ]);
+});
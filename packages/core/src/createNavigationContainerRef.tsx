@@ -0,0 +1,179 @@
+import * as CommonActions from './CommonActions';
+import {
+  NavigationContainerEventMap,
+  NavigationContainerRef,
+  NavigationContainerRefWithCurrent,
+  EventListenerCallback,
+} from './types';
+
+type EventName = keyof NavigationContainerEventMap;
+
+type Listener<T extends EventName> = EventListenerCallback<
+  T,
+  NavigationContainerEventMap[T]
+>;
+
+type HelperName = keyof typeof CommonActions;
+
+type Helpers = Pick<NonNullable<NavigationContainerRef>, HelperName>;
+
+const EVENT_NAMES: EventName[] = [
+  'ready',
+  'state',
+  'action',
+  'unhandledAction',
+  'error',
+  '__unsafe_action__',
+];
+
+/**
+ * Create a ref object for the navigation container which can be used outside of React,
+ * e.g. in push notification handlers or when integrating with state management libraries.
+ * Pass the object as `ref` to `NavigationContainer`, then call navigation methods on it from anywhere.
+ * Actions which are dispatched before the container is ready are queued and dispatched once it's ready.
+ *
+ * Example:
+ * ```js
+ * export const navigationRef = createNavigationContainerRef();
+ *
+ * // In the root component
+ * <NavigationContainer ref={navigationRef}>...</NavigationContainer>
+ *
+ * // Anywhere else
+ * navigationRef.navigate('Profile', { id: 42 });
+ * ```
+ *
+ * Listeners added with `addListener` are kept when the container remounts.
+ *
+ * @returns Ref object containing navigation helpers, `isReady` and the events of the container.
+ */
+export default function createNavigationContainerRef(): NavigationContainerRefWithCurrent {
+  let container: NavigationContainerRef = null;
+  let unsubscribe: Array<() => void> = [];
+
+  const queue: Array<(
+    container: NonNullable<NavigationContainerRef>
+  ) => void> = [];
+  // The callbacks for each event are only called with the data for that event
+  const listeners: Partial<Record<
+    EventName,
+    Array<(event: never) => void>
+  >> = {};
+
+  const isReady = () => Boolean(container && container.isReady());
+
+  const emit = <T extends EventName>(
+    type: T,
+    event: Parameters<Listener<T>>[0]
+  ) => {
+    const callbacks = listeners[type] as Array<Listener<T>> | undefined;
+
+    // Copy the current list of callbacks in case they are mutated during execution
+    callbacks && callbacks.slice().forEach(callback => callback(event));
+  };
+
+  const flush = () => {
+    // Copy the queue in case more actions are queued while dispatching
+    const actions = queue.splice(0, queue.length);
+
+    actions.forEach(action => container && action(container));
+  };
+
+  const enqueue = (
+    action: (container: NonNullable<NavigationContainerRef>) => void
+  ) => {
+    if (container && isReady()) {
+      action(container);
+    } else {
+      queue.push(action);
+    }
+  };
+
+  const addListener = <T extends EventName>(type: T, callback: Listener<T>) => {
+    const name: EventName = type;
+    const callbacks = listeners[name] || [];
+
+    callbacks.push(callback);
+    listeners[name] = callbacks;
+
+    return () => removeListener(type, callback);
+  };
+
+  const removeListener = <T extends EventName>(
+    type: T,
+    callback: Listener<T>
+  ) => {
+    const callbacks = listeners[type];
+    const index = callbacks ? callbacks.indexOf(callback) : -1;
+
+    if (callbacks && index > -1) {
+      callbacks.splice(index, 1);
+    }
+  };
+
+  // The helpers accept the same arguments as the action creators with the same name
+  const helpers: Helpers = (Object.keys(CommonActions) as HelperName[]).reduce(
+    (acc, name) => {
+      const create = CommonActions[name] as (
+        ...args: unknown[]
+      ) => CommonActions.Action;
+
+      acc[name] = (...args) =>
+        enqueue(current => current.dispatch(create(...args)));
+
+      return acc;
+    },
+    {} as Record<HelperName, (...args: unknown[]) => void>
+  );
+
+  return {
+    ...helpers,
+    get current() {
+      return container;
+    },
+    set current(value: NavigationContainerRef) {
+      unsubscribe.forEach(cb => cb());
+
+      container = value;
+
+      const current = container;
+
+      // The container becomes ready after the navigators have been rendered, which is after the ref is set
+      // So we forward the events of the container, and dispatch the queued actions when it's ready
+      unsubscribe = current
+        ? EVENT_NAMES.map(type =>
+            current.addListener(type, event => {
+              if (type === 'ready') {
+                flush();
+              }
+
+              emit(type, event);
+            })
+          )
+        : [];
+
+      // If the container was already ready, it won't emit 'ready' again
+      if (current && current.isReady()) {
+        flush();
+      }
+    },
+    dispatch: action => enqueue(current => current.dispatch(action)),
+    resetRoot: state => enqueue(current => current.resetRoot(state)),
+    undo: () => enqueue(current => current.undo()),
+    redo: () => enqueue(current => current.redo()),
+    jumpTo: index => enqueue(current => current.jumpTo(index)),
+    getHistory: () =>
+      container ? container.getHistory() : { index: -1, entries: [] },
+    getRootState: () => (container ? container.getRootState() : undefined),
+    canGoBack: () => isReady() && Boolean(container && container.canGoBack()),
+    isFocused: () => isReady(),
+    emit: () => {
+      throw new Error(
+        "Events can't be emitted from a navigation container ref, use 'addListener' to subscribe to events instead."
+      );
+    },
+    isReady,
+    addListener,
+    removeListener,
+  };
+}
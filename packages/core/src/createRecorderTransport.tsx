@@ -0,0 +1,44 @@
+import { DevToolsMessage, DevToolsTransport } from './types';
+
+/**
+ * Create a devtools transport which records the messages in memory.
+ * This is useful in tests to assert on the actions and states sent to the devtools.
+ *
+ * @returns Transport object to pass to the container, along with the recorded messages
+ * and a method to simulate a message coming from the devtools.
+ */
+export default function createRecorderTransport(): DevToolsTransport & {
+  messages: DevToolsMessage[];
+  receive(message: DevToolsMessage): void;
+} {
+  const messages: DevToolsMessage[] = [];
+  const listeners: Array<(message: DevToolsMessage) => void> = [];
+
+  return {
+    messages,
+
+    init(state) {
+      messages.push({ type: 'INIT', state });
+    },
+
+    send(action, state) {
+      messages.push({ type: 'ACTION', action, state });
+    },
+
+    subscribe(listener) {
+      listeners.push(listener);
+
+      return () => {
+        const index = listeners.indexOf(listener);
+
+        if (index > -1) {
+          listeners.splice(index, 1);
+        }
+      };
+    },
+
+    receive(message) {
+      listeners.slice().forEach(listener => listener(message));
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { DevToolsMessage, DevToolsTransport } from './types';
+
+type Options = {
+  /**
+   * URL of the relay server which forwards the messages to the devtools.
+   * Defaults to `ws://localhost:8098`.
+   */
+  url?: string;
+};
+
+// Value of `WebSocket.OPEN`, the constant isn't available on the instances in all environments
+const OPEN = 1;
+
+// Every message contains the whole state, so we only need to keep the latest actions while the relay isn't connected
+const MAX_QUEUE_LENGTH = 10;
+
+/**
+ * Create a devtools transport which sends the messages to a relay server over a WebSocket.
+ * This is useful for inspecting the navigation state on a device where the Redux DevTools extension isn't available.
+ *
+ * The messages are sent as JSON strings:
+ * - `{ "type": "INIT", "state": ... }` when the container mounts
+ * - `{ "type": "ACTION", "action": ..., "state": ... }` when the state changes
+ *
+ * The relay can send `{ "type": "DISPATCH", "state": "<JSON string>" }` to reset the navigation state.
+ *
+ * If the relay isn't running or the connection drops, the latest INIT message and the latest actions are kept,
+ * and it reconnects on the next message.
+ *
+ * @param options.url URL of the relay server.
+ * @returns Transport object to pass to the container, along with a method to close the connection.
+ */
+export default function createWebSocketTransport({
+  url = 'ws://localhost:8098',
+}: Options = {}): DevToolsTransport & { close(): void } {
+  const listeners: Array<(message: DevToolsMessage) => void> = [];
+  const queue: string[] = [];
+
+  // The devtools need the INIT message to show the actions, so it's kept separately from the trimmed actions
+  let init: string | undefined;
+
+  let socket: WebSocket | undefined;
+
+  // We connect lazily so that creating the transport doesn't open a connection if it's never used
+  const connect = () => {
+    if (socket !== undefined) {
+      return socket;
+    }
+
+    const current = new WebSocket(url);
+
+    socket = current;
+
+    current.onopen = () => {
+      // Send the messages which were queued while the connection was being established
+      if (init !== undefined) {
+        current.send(init);
+        init = undefined;
+      }
+
+      queue.splice(0).forEach(data => current.send(data));
+    };
+
+    current.onerror = current.onclose = () => {
+      // Forget the socket, so that we try to connect again when there's a new message
+      if (socket === current) {
+        socket = undefined;
+      }
+    };
+
+    current.onmessage = (event: { data: any }) => {
+      let message: DevToolsMessage;
+
+      try {
+        message = JSON.parse(event.data);
+      } catch (e) {
+        // Ignore the messages which aren't meant for us
+        return;
+      }
+
+      listeners.slice().forEach(listener => listener(message));
+    };
+
+    return current;
+  };
+
+  const post = (message: DevToolsMessage) => {
+    const socket = connect();
+    const data = JSON.stringify(message);
+
+    if (socket.readyState === OPEN) {
+      socket.send(data);
+    } else if (message.type === 'INIT') {
+      // The actions before the latest INIT message are outdated
+      init = data;
+      queue.splice(0);
+    } else {
+      queue.push(data);
+      queue.splice(0, queue.length - MAX_QUEUE_LENGTH);
+    }
+  };
+
+  return {
+    init(state) {
+      post({ type: 'INIT', state });
+    },
+
+    send(action, state) {
+      post({ type: 'ACTION', action, state });
+    },
+
+    subscribe(listener) {
+      connect();
+      listeners.push(listener);
+
+      return () => {
+        const index = listeners.indexOf(listener);
+
+        if (index > -1) {
+          listeners.splice(index, 1);
+        }
+      };
+    },
+
+    close() {
+      if (socket !== undefined) {
+        socket.close();
+        socket = undefined;
+      }
+    },
+  };
+}
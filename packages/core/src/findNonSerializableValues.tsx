@@ -0,0 +1,78 @@
+import { StateValidationIssue } from './types';
+
+export const isPlainObject = (value: any) => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+const validateSerializable = (
+  value: any,
+  path: string,
+  issues: StateValidationIssue[]
+) => {
+  if (value == null) {
+    return;
+  }
+
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return;
+    case 'function':
+    case 'symbol':
+    case 'bigint':
+      issues.push({
+        path,
+        message: `Found non-serializable value of type '${typeof value}'.`,
+      });
+      return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) =>
+      validateSerializable(item, `${path}[${i}]`, issues)
+    );
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    const name =
+      value.constructor && value.constructor.name
+        ? value.constructor.name
+        : 'unknown';
+
+    issues.push({
+      path,
+      message: `Found non-serializable instance of class '${name}'. Only plain objects and arrays can be serialized.`,
+    });
+    return;
+  }
+
+  Object.keys(value).forEach(key =>
+    validateSerializable(value[key], `${path}.${key}`, issues)
+  );
+};
+
+/**
+ * Find values which won't survive serializing the state, such as functions and class instances.
+ *
+ * @param value Value to check, e.g. the params of a route.
+ * @param path JSON path of the value, used as prefix for the paths of the found problems.
+ * @returns List of non-serializable values along with their JSON paths.
+ */
+export default function findNonSerializableValues(
+  value: unknown,
+  path: string
+) {
+  const issues: StateValidationIssue[] = [];
+
+  validateSerializable(value, path, issues);
+
+  return issues;
+}
@@ -0,0 +1,76 @@
+import * as CommonActions from './CommonActions';
+import { NavigationState, PartialState } from './types';
+
+type State = NavigationState | Omit<PartialState<NavigationState>, 'stale'>;
+
+type Params = { [key: string]: any } | undefined;
+
+/**
+ * Get the params for a route, with the focused screens of nested navigators under `screen` and `params`.
+ * Returns `null` if a nested navigator contains more than one route.
+ */
+const getNestedParams = (route: State['routes'][number]): Params | null => {
+  const { state } = route;
+
+  if (state === undefined) {
+    return route.params;
+  }
+
+  if (state.routes.length !== 1) {
+    return null;
+  }
+
+  const [child] = state.routes;
+  const params = getNestedParams(child);
+
+  if (params === null) {
+    return null;
+  }
+
+  return params !== undefined
+    ? { ...route.params, screen: child.name, params }
+    : { ...route.params, screen: child.name };
+};
+
+/**
+ * Utility to convert a navigation state object to a `NAVIGATE` action for the focused screen.
+ * Screens in nested navigators are specified with the `screen` and `params` keys in the params.
+ * This makes it possible to navigate to a screen in the existing tree instead of replacing the whole state.
+ *
+ * Example:
+ * ```js
+ * getActionFromState({
+ *   routes: [
+ *     {
+ *       name: 'Home',
+ *       state: {
+ *         routes: [{ name: 'Chat', params: { id: 42 } }],
+ *       },
+ *     },
+ *   ],
+ * })
+ * // { type: 'NAVIGATE', payload: { name: 'Home', params: { screen: 'Chat', params: { id: 42 } } } }
+ * ```
+ *
+ * @param state Navigation state to convert.
+ * @returns Navigate action for the state, or `undefined` if the state can't be represented with one,
+ * e.g. when a navigator contains more than one route.
+ */
+export default function getActionFromState(
+  state: State
+): CommonActions.Action | undefined {
+  const { routes } = state;
+
+  if (routes.length !== 1) {
+    return undefined;
+  }
+
+  const [route] = routes;
+  const params = getNestedParams(route);
+
+  if (params === null) {
+    return undefined;
+  }
+
+  return CommonActions.navigate(route.name, params);
+}
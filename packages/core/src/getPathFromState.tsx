@@ -1,16 +1,19 @@
 import queryString from 'query-string';
-import { NavigationState, PartialState, Route } from './types';
+import {
+  NavigationState,
+  PartialState,
+  Route,
+  PathConfig,
+  PathConfigMap,
+  ParamListBase,
+} from './types';
 
 type State = NavigationState | Omit<PartialState<NavigationState>, 'stale'>;
 
-type StringifyConfig = Record<string, (value: any) => string>;
-
-type Options = {
-  [routeName: string]: string | { path: string; stringify?: StringifyConfig };
-};
-
 /**
  * Utility to serialize a navigation state object to a path string.
+ * The config can be nested to mirror the navigators, same as the config for `getStateFromPath`.
+ * Optional params and wildcards are left out of the path if the route doesn't have a value for them.
  *
  * Example:
  * ```js
@@ -34,14 +37,16 @@ type Options = {
  *
  * @param state Navigation state to serialize.
  * @param options Extra options to fine-tune how to serialize the path.
+ * Pass the param list of the root navigator as the type parameter to check the route names and params in the config.
  * @returns Path representing the state, e.g. /foo/bar?count=42.
  */
-export default function getPathFromState(
-  state: State,
-  options: Options = {}
-): string {
-  let path = '/';
+export default function getPathFromState<
+  ParamList extends ParamListBase = ParamListBase
+>(state: State, options: PathConfigMap<ParamList> = {}): string {
+  const segments: string[] = [];
 
+  const query: string[] = [];
+  let configs = options as PathConfigMap;
   let current: State | undefined = state;
 
   while (current) {
@@ -50,55 +55,108 @@ export default function getPathFromState(
       state?: State | undefined;
     };
 
-    const config =
-      options[route.name] !== undefined
-        ? (options[route.name] as { stringify?: StringifyConfig }).stringify
-        : undefined;
+    const config = configs[route.name];
+    const { stringify, query: options = {} }: PathConfig =
+      config !== undefined && typeof config !== 'string' ? config : {};
 
     const params = route.params
       ? // Stringify all of the param values before we use them
         Object.entries(route.params).reduce<{
-          [key: string]: string;
+          [key: string]: string | string[];
         }>((acc, [key, value]) => {
-          acc[key] = config && config[key] ? config[key](value) : String(value);
+          const stringifyParam = stringify ? stringify[key] : undefined;
+
+          acc[key] = stringifyParam
+            ? stringifyParam(value)
+            : options.json && options.json.includes(key)
+            ? JSON.stringify(value)
+            : Array.isArray(value)
+            ? value.map(String)
+            : // Objects would be useless as `[object Object]`, so we encode them as JSON
+            typeof value === 'object' && value !== null
+            ? JSON.stringify(value)
+            : String(value);
+
           return acc;
         }, {})
       : undefined;
 
-    if (options[route.name] !== undefined) {
-      const pattern =
-        typeof options[route.name] === 'string'
-          ? (options[route.name] as string)
-          : (options[route.name] as { path: string }).path;
-
-      path += pattern
-        .split('/')
-        .map(p => {
-          const name = p.replace(/^:/, '');
-
-          // If the path has a pattern for a param, put the param in the path
-          if (params && name in params && p.startsWith(':')) {
-            const value = params[name];
-            // Remove the used value from the params object since we'll use the rest for query string
-            delete params[name];
-            return encodeURIComponent(value);
-          }
+    if (config !== undefined) {
+      const pattern = typeof config === 'string' ? config : config.path;
+
+      if (pattern !== undefined) {
+        pattern
+          .split('/')
+          .filter(Boolean)
+          .forEach(p => {
+            const name = p.startsWith(':')
+              ? p.replace(/^:/, '').replace(/\?$/, '')
+              : p.startsWith('*')
+              ? p.slice(1) || '*'
+              : undefined;
+
+            if (name === undefined) {
+              segments.push(encodeURIComponent(p));
+              return;
+            }
 
-          return encodeURIComponent(p);
-        })
-        .join('/');
+            // If the path has a pattern for a param, put the param in the path
+            if (params && name in params) {
+              const value = String(params[name]);
+              // Remove the used value from the params object since we'll use the rest for query string
+              delete params[name];
+
+              // The value for a wildcard can contain multiple segments
+              segments.push(
+                ...(p.startsWith('*') ? value.split('/') : [value]).map(
+                  encodeURIComponent
+                )
+              );
+            } else if (p.startsWith(':') && !p.endsWith('?')) {
+              segments.push(encodeURIComponent(p));
+            }
+
+            // Optional params and wildcards without a value are left out of the path
+          });
+      }
+
+      // The config for the nested navigator is under `screens`
+      // If the screen doesn't specify it, the config applies to all levels
+      if (typeof config !== 'string' && config.screens) {
+        configs = config.screens;
+      }
     } else {
-      path += encodeURIComponent(route.name);
+      segments.push(encodeURIComponent(route.name));
     }
 
-    if (route.state) {
-      path += '/';
-    } else if (params) {
-      path += `?${queryString.stringify(params)}`;
+    if (params) {
+      // The focused route puts all of the remaining params in the query string
+      // Other routes only put the params which are configured to belong to them
+      const remaining = Object.keys(params).reduce<typeof params>(
+        (acc, key) => {
+          if (
+            !(options.exclude && options.exclude.includes(key)) &&
+            (!route.state || (options.params && options.params.includes(key)))
+          ) {
+            acc[key] = params[key];
+          }
+
+          return acc;
+        },
+        {}
+      );
+
+      if (Object.keys(remaining).length) {
+        query.push(
+          queryString.stringify(remaining, {
+            arrayFormat: options.arrayFormat || 'none',
+          })
+        );
+      }
     }
 
     current = route.state;
   }
 
-  return path;
+  return `/${segments.join('/')}${query.length ? `?${query.join('&')}` : ''}`;
 }
@@ -1,124 +1,718 @@
 import escape from 'escape-string-regexp';
 import queryString from 'query-string';
-import { NavigationState, PartialState } from './types';
+import {
+  NavigationState,
+  PartialState,
+  PathConfig,
+  PathConfigMap,
+  ParamListBase,
+  InitialState,
+} from './types';
 
-type ParseConfig = Record<string, (value: string) => any>;
+type ParseConfig = NonNullable<PathConfig['parse']>;
 
-type Options = {
-  [routeName: string]: string | { path: string; parse?: ParseConfig };
+type QueryConfig = NonNullable<PathConfig['query']>;
+
+type RouteConfig = {
+  /**
+   * Full path pattern of the screen, including the paths of the parent screens.
+   */
+  pattern: string;
+  /**
+   * Segments of this variant of the pattern.
+   * Patterns with optional params are split into variants with and without each of them, so that they're ranked separately.
+   */
+  segments: string[];
+  /**
+   * Number of optional params which are left out in this variant of the pattern.
+   */
+  omitted: number;
+  match: RegExp;
+  /**
+   * Whether the pattern only matches the whole path instead of the beginning of it.
+   */
+  exact: boolean;
+  /**
+   * Screens from the root to this screen, along with the params they own in the pattern.
+   */
+  routes: Array<{
+    name: string;
+    params: string[];
+    parse?: ParseConfig;
+    query?: QueryConfig;
+  }>;
+};
+
+const isParam = (segment: string) => segment.startsWith(':');
+
+const isWildcard = (segment: string) => segment.startsWith('*');
+
+const isOptional = (segment: string) =>
+  isParam(segment) && segment.endsWith('?');
+
+/**
+ * Get the specificity of a segment: static segments beat params, which beat wildcards.
+ */
+const getSegmentScore = (segment: string) =>
+  isWildcard(segment) ? 0 : isParam(segment) ? 2 : 3;
+
+/**
+ * Get the specificity of a pattern, similar to how web routers rank routes.
+ * Each segment adds to the score based on how specific it is, and wildcards lower the score.
+ * Optional params are ranked through the variants of the pattern, so they don't add to the score.
+ */
+const getPatternScore = (segments: string[]) =>
+  segments.reduce(
+    (acc, segment) =>
+      acc + (isWildcard(segment) ? -1 : isParam(segment) ? 4 : 11),
+    0
+  );
+
+/**
+ * Compare 2 route configs to sort them from the most specific to the least specific.
+ * Patterns with the same score are compared segment by segment.
+ * Then the variant with fewer optional params left out is preferred, e.g. `user` beats `user/:id?` for `/user`.
+ * Then the more deeply nested screen is preferred.
+ * If the configs are still equal, the order in the config is kept, so the result is deterministic.
+ */
+const compareConfigs = (a: RouteConfig, b: RouteConfig) => {
+  const difference = getPatternScore(b.segments) - getPatternScore(a.segments);
+
+  if (difference !== 0) {
+    return difference;
+  }
+
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    const score =
+      getSegmentScore(b.segments[i]) - getSegmentScore(a.segments[i]);
+
+    if (score !== 0) {
+      return score;
+    }
+  }
+
+  if (a.omitted !== b.omitted) {
+    return a.omitted - b.omitted;
+  }
+
+  return b.routes.length - a.routes.length;
+};
+
+/**
+ * Check if every path matched by the pattern of a config is also matched by the pattern of another config.
+ * This is intentionally conservative, so that it only reports patterns which can never be matched.
+ *
+ * @param other Config which is tried later.
+ * @param config Config which is tried first.
+ */
+const isShadowedBy = (other: RouteConfig, config: RouteConfig) => {
+  const a = config.segments;
+  const b = other.segments;
+
+  for (let i = 0; i < b.length; i++) {
+    if (i >= a.length) {
+      // The beginning of the path is enough for patterns which aren't exact
+      return !config.exact;
+    }
+
+    if (isWildcard(a[i])) {
+      // Wildcards match all of the remaining segments
+      return true;
+    }
+
+    const covers = isParam(a[i]) ? !isWildcard(b[i]) : a[i] === b[i];
+
+    if (!covers) {
+      return false;
+    }
+  }
+
+  // The other pattern can also match paths which are longer, unless it's exact
+  return a.length === b.length && (!config.exact || other.exact);
+};
+
+/**
+ * Get the name of the param in a segment, e.g. `id` for `:id?` or `path` for `*path`.
+ * Anonymous wildcards store the rest of the path in the `*` param, so that it can be serialized back.
+ */
+const getParamName = (segment: string) =>
+  isParam(segment)
+    ? segment.replace(/^:/, '').replace(/\?$/, '')
+    : segment.slice(1) || '*';
+
+/**
+ * Create a regex from the segments of a path pattern.
+ * With the regex, we can match paths containing params and extract them.
+ *
+ * @param segments Segments of the path pattern.
+ * @param exact Whether the regex should only match the whole path.
+ */
+const createMatcher = (segments: string[], exact: boolean) =>
+  new RegExp(
+    '^' +
+      segments
+        .map((segment, i) => {
+          const separator = i === 0 ? '' : '/';
+
+          if (isWildcard(segment)) {
+            // Wildcards match all of the remaining segments, but at least 1
+            return `${separator}(.+)`;
+          }
+
+          if (isParam(segment)) {
+            return `${separator}([^/]+)`;
+          }
+
+          return separator + escape(segment);
+        })
+        .join('') +
+      // Patterns should end at a segment boundary, so that `chat` doesn't match `chatroom`
+      (exact ? '/?$' : '(?:/|$)')
+  );
+
+const appendSegment = (segments: string[][], index: number, segment: string) =>
+  segments.map((current, i) => (i === index ? [...current, segment] : current));
+
+/**
+ * Get the variants of the segments of the screens with and without each optional param.
+ * For example, `user/:id?` results in `user/:id` and `user`.
+ *
+ * @param segments Segments of the path of each screen from the root.
+ */
+const getOptionalVariants = (segments: string[][]) => {
+  let variants = [{ segments: segments.map((): string[] => []), omitted: 0 }];
+
+  segments.forEach((current, i) =>
+    current.forEach(segment => {
+      variants = isOptional(segment)
+        ? variants.reduce<typeof variants>(
+            (acc, variant) =>
+              acc.concat(
+                {
+                  segments: appendSegment(
+                    variant.segments,
+                    i,
+                    segment.replace(/\?$/, '')
+                  ),
+                  omitted: variant.omitted,
+                },
+                { ...variant, omitted: variant.omitted + 1 }
+              ),
+            []
+          )
+        : variants.map(variant => ({
+            ...variant,
+            segments: appendSegment(variant.segments, i, segment),
+          }));
+    })
+  );
+
+  return variants;
+};
+
+/**
+ * Convert the nested config to a flat list of route configs with the full patterns.
+ *
+ * @param options Config for the screens at the current level.
+ * @param parents Config for the parent screens of the current level.
+ */
+const createNormalizedConfigs = (
+  options: PathConfigMap,
+  parents: Array<{
+    name: string;
+    segments: string[];
+    parse?: ParseConfig;
+    query?: QueryConfig;
+  }> = []
+): RouteConfig[] =>
+  Object.keys(options).reduce<RouteConfig[]>((acc, name) => {
+    const config = options[name];
+
+    if (config === undefined) {
+      return acc;
+    }
+
+    const path = typeof config === 'string' ? config : config.path;
+    const routes = [
+      ...parents,
+      {
+        name,
+        segments: path !== undefined ? path.split('/').filter(Boolean) : [],
+        parse: typeof config === 'string' ? undefined : config.parse,
+        query: typeof config === 'string' ? undefined : config.query,
+      },
+    ];
+
+    // Screens without a path only render a navigator, so they can't be matched directly
+    // Screens with an empty path can't be matched either since they'd match any path
+    if (path !== undefined) {
+      const segments = routes.reduce<string[]>(
+        (acc, route) => acc.concat(route.segments),
+        []
+      );
+
+      if (segments.length) {
+        const exact = typeof config !== 'string' && config.exact === true;
+
+        getOptionalVariants(routes.map(route => route.segments)).forEach(
+          variant => {
+            const flattened = variant.segments.reduce<string[]>(
+              (acc, segments) => acc.concat(segments),
+              []
+            );
+
+            // Leaving out all of the optional params can result in an empty pattern, which can't be matched
+            if (!flattened.length) {
+              return;
+            }
+
+            acc.push({
+              pattern: segments.join('/'),
+              segments: flattened,
+              omitted: variant.omitted,
+              match: createMatcher(flattened, exact),
+              exact,
+              routes: routes.map((route, i) => ({
+                name: route.name,
+                params: variant.segments[i]
+                  .filter(segment => isParam(segment) || isWildcard(segment))
+                  .map(getParamName),
+                parse: route.parse,
+                query: route.query,
+              })),
+            });
+          }
+        );
+      }
+    }
+
+    if (typeof config !== 'string' && config.screens) {
+      acc.push(...createNormalizedConfigs(config.screens, routes));
+    }
+
+    return acc;
+  }, []);
+
+const getRouteNames = (routes: RouteConfig['routes']) =>
+  routes.map(route => route.name).join(' > ');
+
+/**
+ * Check that no 2 screens can be matched by the same pattern.
+ * It's fine if a pattern matches a screen and its parent, e.g. when a nested screen has an empty path.
+ * In this case the nested screen is preferred, since it's the one which would be shown.
+ * Variants without optional params can match the same paths as other patterns, since they're ranked lower.
+ *
+ * @param configs List of normalized route configs.
+ */
+const checkForConflicts = (configs: RouteConfig[]) =>
+  configs
+    .filter(config => config.omitted === 0)
+    .reduce<Record<string, RouteConfig>>((acc, config) => {
+      // Patterns which only differ in the name of the params match the same paths
+      const key = config.pattern
+        .split('/')
+        .map(segment =>
+          isParam(segment)
+            ? segment.endsWith('?')
+              ? ':?'
+              : ':'
+            : isWildcard(segment)
+            ? '*'
+            : segment
+        )
+        .join('/');
+      const existing = acc[key];
+      if (existing) {
+        const [shorter, longer] =
+          existing.routes.length < config.routes.length
+            ? [existing.routes, config.routes]
+            : [config.routes, existing.routes];
+
+        if (!shorter.every((route, i) => route.name === longer[i].name)) {
+          throw new Error(
+            `Found conflicting screens with the same pattern. The pattern '${
+              config.pattern
+            }' resolves to both '${getRouteNames(
+              existing.routes
+            )}' and '${getRouteNames(
+              config.routes
+            )}'. Patterns must be unique and cannot resolve to more than one screen.`
+          );
+        }
+      }
+
+      acc[key] = config;
+
+      return acc;
+    }, {});
+
+/**
+ * Warn about patterns which can never be matched since a pattern which is tried earlier matches all of their paths.
+ * Patterns with optional params are only reported if all of their variants are shadowed.
+ *
+ * @param configs List of normalized route configs, sorted in the order they are tried.
+ */
+const checkForShadowedPatterns = (configs: RouteConfig[]) => {
+  const variants = configs.reduce<
+    Record<string, Array<{ other: RouteConfig; config?: RouteConfig }>>
+  >((acc, other, index) => {
+    const config = configs.slice(0, index).find(
+      config =>
+        // A nested screen with an empty path is expected to be preferred over its parent
+        !config.routes.every((route, i) =>
+          other.routes[i] ? route.name === other.routes[i].name : true
+        ) && isShadowedBy(other, config)
+    );
+
+    const key = getRouteNames(other.routes);
+
+    acc[key] = (acc[key] || []).concat({ other, config });
+
+    return acc;
+  }, {});
+
+  Object.keys(variants).forEach(key => {
+    const [{ other, config }] = variants[key];
+
+    if (config && variants[key].every(variant => variant.config)) {
+      console.warn(
+        `The pattern '${other.pattern}' for the screen '${getRouteNames(
+          other.routes
+        )}' is shadowed by the pattern '${
+          config.pattern
+        }' for the screen '${getRouteNames(
+          config.routes
+        )}', so it'll never be matched. Make the patterns more specific or use 'exact' to change how they match.`
+      );
+    }
+  });
+};
+
+const cache = new WeakMap<PathConfigMap, RouteConfig[]>();
+
+/**
+ * Get the normalized route configs for a config, sorted in the order they are tried.
+ * The result is cached for each config object, so that the config is only checked and warned about once.
+ *
+ * @param options Config for the screens of the root navigator.
+ */
+const getRouteConfigs = (options: PathConfigMap) => {
+  const cached = cache.get(options);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Create a normalized config array which will be easier to use
+  const routeConfigs = createNormalizedConfigs(options)
+    // Try the most specific patterns first, so that the result doesn't depend on the order of the config
+    .sort(compareConfigs);
+
+  checkForConflicts(routeConfigs);
+
+  if (process.env.NODE_ENV !== 'production') {
+    checkForShadowedPatterns(routeConfigs);
+  }
+
+  cache.set(options, routeConfigs);
+
+  return routeConfigs;
+};
+
+/**
+ * Parse the query string and assign the params to the routes they belong to.
+ * Params listed in `query.params` of a screen go to that screen, the rest go to the focused screen.
+ *
+ * @param query Query string without the leading `?`.
+ * @param chain Routes from the root to the focused route, along with their config.
+ */
+const assignQueryParams = (
+  query: string,
+  chain: Array<{
+    route: { params?: object };
+    config: RouteConfig['routes'][number] | undefined;
+  }>
+) => {
+  const claimed = chain.reduce<string[]>(
+    (acc, { config }, i) =>
+      i < chain.length - 1 && config && config.query && config.query.params
+        ? acc.concat(config.query.params)
+        : acc,
+    []
+  );
+
+  chain.forEach(({ route, config }, i) => {
+    const isFocused = i === chain.length - 1;
+    const { parse, query: options = {} } = config || {};
+    const params = queryString.parse(query, {
+      arrayFormat: options.arrayFormat || 'none',
+    });
+
+    const own = Object.keys(params).reduce<Record<string, any>>((acc, key) => {
+      // Keys of arrays in other formats can still have brackets if this screen uses a different format
+      const isClaimed = claimed.includes(key.replace(/\[\d*\]$/, ''));
+
+      if (
+        (options.exclude && options.exclude.includes(key)) ||
+        (isFocused
+          ? isClaimed
+          : !(options.params && options.params.includes(key)))
+      ) {
+        return acc;
+      }
+
+      const parseValue = (value: string) => {
+        if (options.json && options.json.includes(key)) {
+          try {
+            return JSON.parse(value);
+          } catch (e) {
+            return value;
+          }
+        }
+
+        const parseParam = parse ? parse[key] : undefined;
+
+        return parseParam ? parseParam(value) : value;
+      };
+
+      const value = params[key];
+
+      acc[key] =
+        value == null
+          ? value
+          : Array.isArray(value)
+          ? value.map(parseValue)
+          : parseValue(value);
+
+      return acc;
+    }, {});
+
+    if (Object.keys(own).length) {
+      route.params = { ...route.params, ...own };
+    }
+  });
+};
+
+/**
+ * Decode a value from the path, since the values are encoded when creating a path from the state.
+ * Malformed values are kept as is instead of failing to parse the whole path.
+ */
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+};
+
+type Match = {
+  routes: Array<{ name: string; params?: Record<string, any> }>;
+  configs: Array<RouteConfig['routes'][number] | undefined>;
+};
+
+/**
+ * Find the first config which matches the beginning of the path, and extract the params from the path.
+ *
+ * @param path Path to match, without the leading slash and the query string.
+ * @param configs List of normalized route configs, sorted in the order they are tried.
+ */
+const matchConfigs = (path: string, configs: RouteConfig[]) => {
+  for (const config of configs) {
+    const match = path.match(config.match);
+
+    if (match) {
+      let index = 0;
+
+      const routes = config.routes.map(route => {
+        const params = route.params.reduce<Record<string, any> | undefined>(
+          (acc, key) => {
+            // The param segments start from index 1 in the regex match result
+            const segment = match[++index];
+
+            // Optional params may not have a value
+            if (segment === undefined || segment === '') {
+              return acc;
+            }
+
+            // Wildcards can contain multiple segments, which are encoded separately
+            const value = segment
+              .split('/')
+              .map(decode)
+              .join('/');
+
+            const parseParam = route.parse ? route.parse[key] : undefined;
+
+            return {
+              ...acc,
+              [key]: parseParam ? parseParam(value) : value,
+            };
+          },
+          undefined
+        );
+
+        return params ? { name: route.name, params } : { name: route.name };
+      });
+
+      return {
+        config,
+        routes,
+        remaining: path.replace(match[0], ''),
+      };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Match the path against the configs, and parse the segments left after a match as nested routes.
+ * The remaining segments are only matched against screens at the root which aren't catch-alls.
+ * Nested screens already have a full pattern, so the path can't continue with other screens after them.
+ * If the whole path can't be matched this way, it's matched against the catch-all screens instead.
+ *
+ * @param path Path to match, without the leading slash and the query string.
+ * @param configs List of normalized route configs, sorted in the order they are tried.
+ */
+const getMatches = (
+  path: string,
+  configs: RouteConfig[]
+): Match[] | undefined => {
+  const matches: Match[] = [];
+  const roots = configs.filter(
+    config => config.routes.length === 1 && !config.segments.some(isWildcard)
+  );
+
+  let remaining = path;
+
+  while (remaining) {
+    const match = matchConfigs(remaining, matches.length ? roots : configs);
+
+    if (
+      match === undefined ||
+      (match.remaining && match.config.routes.length > 1)
+    ) {
+      const catchAll = matchConfigs(
+        path,
+        configs.filter(config => config.segments.some(isWildcard))
+      );
+
+      return catchAll && !catchAll.remaining
+        ? [{ routes: catchAll.routes, configs: catchAll.config.routes }]
+        : undefined;
+    }
+
+    matches.push({ routes: match.routes, configs: match.config.routes });
+    remaining = match.remaining;
+  }
+
+  return matches;
 };
 
 /**
  * Utility to parse a path string to initial state object accepted by the container.
  * This is useful for deep linking when we need to handle the incoming URL.
  *
+ * The config can be nested to mirror the navigators, with `screens` containing the config for the nested navigator.
+ * The paths of nested screens are relative to the path of the parent screen.
+ * When a nested screen matches, the routes for its parent navigators are created automatically.
+ *
+ * The patterns support params (`:id`), optional params (`:id?`) and wildcards matching the rest of the path (`*`).
+ * A wildcard can be named to get the rest of the path in a param (`*path`), otherwise it's in the `*` param.
+ * A screen with a wildcard path can be used as a catch-all to handle paths which no other screen matches.
+ * If the config doesn't match the path, `undefined` is returned.
+ *
+ * The patterns are tried from the most specific to the least specific, regardless of the order in the config.
+ * Static segments are more specific than params, and params are more specific than wildcards.
+ *
  * Example:
  * ```js
  * getStateFromPath(
  *   '/chat/jane/42',
  *   {
- *     Chat: {
- *       path: 'chat/:author/:id',
- *       parse: { id: Number }
+ *     Home: {
+ *       path: '',
+ *       screens: {
+ *         Chat: {
+ *           path: 'chat/:author/:id',
+ *           parse: { id: Number }
+ *         }
+ *       }
  *     }
  *   }
  * )
  * ```
  * @param path Path string to parse and convert, e.g. /foo/bar?count=42.
  * @param options Extra options to fine-tune how to parse the path.
+ * Pass the param list of the root navigator as the type parameter to check the route names and params in the config.
  */
-export default function getStateFromPath(
+export default function getStateFromPath<
+  ParamList extends ParamListBase = ParamListBase
+>(
   path: string,
-  options: Options = {}
+  options: PathConfigMap<ParamList> = {}
 ): PartialState<NavigationState> | undefined {
-  // Create a normalized config array which will be easier to use
-  const routeConfig = Object.keys(options).map(key => {
-    const pattern =
-      typeof options[key] === 'string'
-        ? (options[key] as string)
-        : (options[key] as { path: string }).path;
-
-    // Create a regex from the provided path pattern
-    // With the pattern, we can match segements containing params and extract them
-    const match = new RegExp(
-      '^' + escape(pattern).replace(/:[a-z0-9]+/gi, '([^/]+)') + '/?'
-    );
+  // The param types aren't needed for parsing, so we treat the config as untyped
+  const routeConfigs = getRouteConfigs(options as PathConfigMap);
 
-    return {
-      match,
-      pattern,
-      routeName: key,
-      // @ts-ignore
-      parse: options[key].parse,
-    };
-  });
-
-  let result: PartialState<NavigationState> | undefined;
-  let current: PartialState<NavigationState> | undefined;
-
-  let remaining = path
+  const remaining = path
     .replace(/[/]+/, '/') // Replace multiple slash (//) with single ones
     .replace(/^\//, '') // Remove extra leading slash
     .replace(/\?.*/, ''); // Remove query params which we will handle later
 
-  while (remaining) {
-    let routeName;
-    let params;
-
-    // Go through all configs, and see if the next path segment matches our regex
-    for (const config of routeConfig) {
-      const match = remaining.match(config.match);
-
-      // If our regex matches, we need to extract params from the path
-      if (match) {
-        routeName = config.routeName;
-
-        const paramPatterns = config.pattern
-          .split('/')
-          .filter(p => p.startsWith(':'));
-
-        if (paramPatterns.length) {
-          params = paramPatterns.reduce<Record<string, any>>((acc, p, i) => {
-            const key = p.replace(/^:/, '');
-            const value = match[i + 1]; // The param segments start from index 1 in the regex match result
-
-            acc[key] =
-              config.parse && config.parse[key]
-                ? config.parse[key](value)
-                : value;
-
-            return acc;
-          }, {});
-        }
+  let matches: Match[] | undefined;
 
-        // Remove the matched segment from the remaining path
-        remaining = remaining.replace(match[0], '');
+  if (Object.keys(options).length) {
+    matches = getMatches(remaining, routeConfigs);
 
-        break;
-      }
+    if (matches === undefined) {
+      // The path doesn't belong to any screen in the config
+      // A catch-all screen with a wildcard path (`*`) can be specified in the config to handle such paths
+      return undefined;
     }
+  } else {
+    // Without a config, the segments of the path are used as route names
+    matches = remaining
+      .split('/')
+      .filter(Boolean)
+      .map(segment => ({
+        routes: [{ name: decode(segment) }],
+        configs: [undefined],
+      }));
+  }
 
-    // If we hadn't matched any segments earlier, use the path as route name
-    if (routeName === undefined) {
-      const segments = remaining.split('/');
+  let result: PartialState<NavigationState> | undefined;
+  let current: InitialState | undefined;
 
-      routeName = decodeURIComponent(segments[0]);
-      segments.shift();
-      remaining = segments.join('/');
-    }
+  // Routes from the root to the focused route, along with their config to parse the query params
+  const chain: Array<{
+    route: InitialState['routes'][number];
+    config: RouteConfig['routes'][number] | undefined;
+  }> = [];
 
-    const state = {
-      routes: [{ name: routeName, params }],
-    };
+  for (const { routes, configs } of matches) {
+    // Create the states for the intermediate navigators
+    const state = routes.reduceRight<InitialState | undefined>(
+      (child, route) => ({
+        routes: [child ? { ...route, state: child } : route],
+      }),
+      undefined
+    ) as InitialState;
 
     if (current) {
       // The state should be nested inside the route we parsed before
       current.routes[0].state = state;
     } else {
-      result = state;
+      result = state as PartialState<NavigationState>;
     }
 
     current = state;
+    chain.push({ route: current.routes[0], config: configs[0] });
+
+    // Find the deepest state, subsequent segments are nested inside it
+    for (let i = 1; current.routes[0].state; i++) {
+      current = current.routes[0].state;
+      chain.push({ route: current.routes[0], config: configs[i] });
+    }
   }
 
   if (current == null || result == null) {
@@ -128,22 +722,7 @@ export default function getStateFromPath(
   const query = path.split('?')[1];
 
   if (query) {
-    const route = current.routes[0];
-
-    const params = queryString.parse(query);
-    const config = options[route.name]
-      ? (options[route.name] as { parse?: ParseConfig }).parse
-      : undefined;
-
-    if (config) {
-      Object.keys(params).forEach(name => {
-        if (config[name] && typeof params[name] === 'string') {
-          params[name] = config[name](params[name] as string);
-        }
-      });
-    }
-
-    route.params = { ...route.params, ...params };
+    assignQueryParams(query, chain);
   }
 
   return result;
@@ -1,9 +1,11 @@
 import * as CommonActions from './CommonActions';
+import * as StateMigrations from './StateMigrations';
 
-export { CommonActions };
+export { CommonActions, StateMigrations };
 
 export { default as BaseRouter } from './BaseRouter';
 export { default as NavigationContainer } from './NavigationContainer';
+export { default as createNavigationContainerRef } from './createNavigationContainerRef';
 export { default as createNavigatorFactory } from './createNavigatorFactory';
 
 export { default as NavigationContext } from './NavigationContext';
@@ -17,5 +19,11 @@ export { default as useIsFocused } from './useIsFocused';
 
 export { default as getStateFromPath } from './getStateFromPath';
 export { default as getPathFromState } from './getPathFromState';
+export { default as getActionFromState } from './getActionFromState';
+export { default as migrateState } from './migrateState';
+export { default as validateState } from './validateState';
+
+export { default as createWebSocketTransport } from './createWebSocketTransport';
+export { default as createRecorderTransport } from './createRecorderTransport';
 
 export * from './types';
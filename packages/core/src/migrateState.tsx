@@ -0,0 +1,66 @@
+import { InitialState, StateMigrationConfig } from './types';
+
+type Options = {
+  /**
+   * Version of the schema the state was saved with.
+   */
+  from: number;
+  /**
+   * Version of the schema the state should be migrated to.
+   */
+  to: number;
+  /**
+   * Migrations for each version, which receive the state of the previous version.
+   */
+  migrations?: StateMigrationConfig;
+};
+
+/**
+ * Utility to migrate a saved navigation state to the current version of the schema.
+ * This is useful when the screens changed since the state was persisted, e.g. a screen was renamed.
+ *
+ * Example:
+ * ```js
+ * migrateState(state, {
+ *   from: 1,
+ *   to: 2,
+ *   migrations: {
+ *     2: StateMigrations.renameRoute('Profile', 'Account')
+ *   }
+ * })
+ * ```
+ *
+ * @param state Navigation state object to migrate.
+ * @param options.from Version of the schema the state was saved with.
+ * @param options.to Version of the schema the state should be migrated to.
+ * @param options.migrations Migrations for each version.
+ * @returns The migrated state, or `undefined` if the state was saved with a newer version.
+ */
+export default function migrateState(
+  state: InitialState,
+  { from, to, migrations = {} }: Options
+): InitialState | undefined {
+  if (from > to) {
+    // The state was saved by a newer version of the app, we can't know how to downgrade it
+    return undefined;
+  }
+
+  let result = state;
+
+  for (let version = from + 1; version <= to; version++) {
+    const migration = migrations[version];
+
+    if (migration === undefined) {
+      throw new Error(
+        `Couldn't find a migration for version ${version} of the navigation state. Have you added it to 'migrations'?`
+      );
+    }
+
+    result = (Array.isArray(migration) ? migration : [migration]).reduce(
+      (acc, step) => step(acc),
+      result
+    );
+  }
+
+  return result;
+}
@@ -121,6 +121,11 @@ export type RouterFactory<
 export type RouterConfigOptions = {
   routeNames: string[];
   routeParamList: ParamListBase;
+  routeGetIdList?: Record<
+    string,
+    ((options: { params?: object }) => string | undefined) | undefined
+  >;
+  allowNonSerializableParams?: boolean;
 };
 
 export type Router<
@@ -181,6 +186,7 @@ export type Router<
    * @param action Action object to apply.
    * @param options.routeNames List of valid route names as defined in the screen components.
    * @param options.routeParamsList Object containing params for each route.
+   * @param options.allowNonSerializableParams Whether to skip the development warning for non-serializable params.
    */
   getStateForAction(
     state: State,
@@ -203,9 +209,21 @@ export type Router<
 
 export type ParamListBase = Record<string, object | undefined>;
 
+/**
+ * Params for a screen which renders a navigator, to specify the screen to show in the navigator.
+ * Using it in the param list also types the `screens` of the linking config with the param list of the nested navigator.
+ */
+export type NavigatorScreenParams<ParamList extends ParamListBase> = {
+  [RouteName in keyof ParamList]: {
+    screen: RouteName;
+    params?: ParamList[RouteName];
+  };
+}[keyof ParamList];
+
 export type EventMapBase = {
   focus: undefined;
   blur: undefined;
+  beforeRemove: { action: NavigationAction };
 };
 
 export type EventArg<EventName extends string, Data = undefined> = {
@@ -375,15 +393,190 @@ export type NavigationHelpers<
     ): void;
   };
 
+export type PersistenceStorage = {
+  /**
+   * Read the value stored for the given key.
+   * Resolve with `null` or `undefined` if nothing is stored for the key.
+   *
+   * @param key Key under which the value was stored.
+   */
+  getItem(key: string): Promise<string | null | undefined>;
+  /**
+   * Store the value for the given key.
+   *
+   * @param key Key under which the value should be stored.
+   * @param value Serialized navigation state.
+   */
+  setItem(key: string, value: string): Promise<void>;
+};
+
+export type PersistenceOptions = {
+  /**
+   * Storage adapter used to read and write the navigation state, e.g. `AsyncStorage`.
+   */
+  storage: PersistenceStorage;
+  /**
+   * Key under which the navigation state is stored.
+   * Defaults to `@react-navigation/state`.
+   */
+  key?: string;
+  /**
+   * Time in milliseconds to wait after the last state change before writing to the storage.
+   * Defaults to `300`.
+   */
+  debounce?: number;
+  /**
+   * Element to render while the persisted state is being restored.
+   * Defaults to `null`.
+   */
+  fallback?: React.ReactNode;
+  /**
+   * Version of the state schema. The persisted state is tagged with this version.
+   * Increment it when the screens change in a way which requires migrating the persisted state.
+   * Defaults to `0`.
+   */
+  version?: number;
+  /**
+   * Migrations to run on the persisted state if it was saved with an older version.
+   * The migration for a version receives the state of the previous version.
+   */
+  migrations?: StateMigrationConfig;
+};
+
+export type StateMigration = (state: InitialState) => InitialState;
+
+export type StateMigrationConfig = {
+  [version: number]: StateMigration | StateMigration[];
+};
+
+export type StateValidationIssue = {
+  /**
+   * JSON path of the invalid value in the state object, e.g. `$.routes[0].params.user`.
+   */
+  path: string;
+  /**
+   * Description of the problem with the value.
+   */
+  message: string;
+};
+
+export type NavigationMiddleware = (
+  context: {
+    /**
+     * Action which was dispatched.
+     */
+    action: NavigationAction;
+    /**
+     * State of the navigator where the action was dispatched.
+     */
+    state: NavigationState;
+    /**
+     * Key of the navigator which the action is targeted to.
+     * If the action doesn't specify a target, it's the navigator where the action was dispatched.
+     */
+    target: string;
+  },
+  next: (action: NavigationAction) => boolean
+) => boolean;
+
+export type DevToolsMessage = { type: string; [key: string]: any };
+
+export type DevToolsTransport = {
+  /**
+   * Send the initial state when the container mounts.
+   *
+   * @param state Initial navigation state.
+   */
+  init(state: any): void;
+  /**
+   * Send an action along with the state resulting from it.
+   *
+   * @param action Action object, or a string describing the change (e.g. `@@RESET_ROOT`).
+   * @param state Navigation state after the action was handled.
+   */
+  send(action: any, state: any): void;
+  /**
+   * Subscribe to messages from the devtools.
+   * A message with type `DISPATCH` and a JSON string as `state` resets the navigation state.
+   *
+   * @param listener Callback which receives the messages.
+   * @returns Function to unsubscribe the listener.
+   */
+  subscribe(listener: (message: DevToolsMessage) => void): () => void;
+};
+
+export type HistoryRecorderOptions = {
+  /**
+   * Maximum number of entries to keep in the history. The oldest entries are dropped first.
+   * Defaults to `50`.
+   */
+  limit?: number;
+};
+
+export type NavigationHistoryEntry = {
+  /**
+   * Action which resulted in the state, or a string describing the change (e.g. `@@RESET_ROOT`).
+   */
+  action: NavigationAction | string;
+  /**
+   * Root navigation state after the action was handled.
+   */
+  state: NavigationState;
+  /**
+   * Time when the entry was recorded, in milliseconds since epoch.
+   */
+  timestamp: number;
+};
+
+export type NavigationHistory = {
+  /**
+   * Index of the entry for the current state.
+   */
+  index: number;
+  /**
+   * List of recorded entries, from the oldest to the newest.
+   */
+  entries: NavigationHistoryEntry[];
+};
+
 export type NavigationContainerProps = {
   /**
    * Initial navigation state for the child navigators.
+   * When `persistence` is specified, it's used if there's no usable persisted state.
    */
   initialState?: InitialState;
   /**
    * Callback which is called with the latest navigation state when it changes.
    */
   onStateChange?: (state: NavigationState | undefined) => void;
+  /**
+   * Options to persist the navigation state and restore it on next mount.
+   * Children are not rendered until the persisted state has been restored.
+   */
+  persistence?: PersistenceOptions;
+  /**
+   * List of middleware which can inspect, rewrite, delay or block actions before the routers handle them.
+   * Each middleware receives the action along with the navigator state and a `next` callback.
+   * Calling `next` with an action passes it to the next middleware or to the routers.
+   * Not calling `next` blocks the action, and `next` can also be called later to delay it.
+   * The middleware should return whether the action was handled.
+   */
+  middleware?: NavigationMiddleware[];
+  /**
+   * Options to record the history of actions and resulting states.
+   * When specified, the history can be used with `undo`, `redo` and `jumpTo` on the container ref.
+   */
+  historyRecorder?: HistoryRecorderOptions;
+  /**
+   * Transport to send the actions and states to devtools, e.g. `createWebSocketTransport()`.
+   * If not specified, the Redux DevTools extension is used in development when it's available.
+   */
+  devToolsTransport?: DevToolsTransport;
+  /**
+   * Whether to allow params which can't be serialized, such as functions and class instances.
+   * By default, a warning is shown in development when such params are passed to a route.
+   */
+  allowNonSerializableParams?: boolean;
   /**
    * Whether this navigation container should be independent of parent containers.
    * If this is not set to `true`, this container cannot be nested inside another container.
@@ -534,6 +727,23 @@ export type RouteConfig<
    * Initial params object for the route.
    */
   initialParams?: ParamList[RouteName];
+
+  /**
+   * Function to get an ID for the route from its params, e.g. `({ params }) => params.id`.
+   * Navigating to a screen with a different ID adds a new route instead of going back to the existing one.
+   * If it returns `undefined`, the route is identified by its name.
+   */
+  getId?: (options: { params?: ParamList[RouteName] }) => string | undefined;
+
+  /**
+   * Guard which is called before an action focuses this route.
+   * Return `false` to prevent the action, e.g. when the user isn't allowed to see the screen.
+   * The action can be dispatched again later, e.g. after the user has logged in.
+   */
+  beforeEnter?: (e: {
+    route: RouteProp<ParamList, RouteName>;
+    action: NavigationAction;
+  }) => boolean | void;
 } & (
   | {
       /**
@@ -555,19 +765,91 @@ export type RouteConfig<
     }
 );
 
+export type NavigationContainerEventMap = {
+  /**
+   * Event which fires when the navigators have been rendered and actions can be dispatched.
+   */
+  ready: undefined;
+  /**
+   * Event which fires with the new root state when the navigation state changes.
+   */
+  state: { state: NavigationState | undefined };
+  /**
+   * Event which fires for every action dispatched in the navigation tree, after the navigators tried to handle it.
+   */
+  action: { action: NavigationAction; handled: boolean };
+  /**
+   * Event which fires when no navigator handled an action, e.g. when navigating to a route name with a typo.
+   */
+  unhandledAction: { action: NavigationAction };
+  /**
+   * Event which fires when a router or a middleware throws while handling a dispatched action.
+   * The error is still thrown after the event is emitted.
+   */
+  error: { action: NavigationAction; error: Error };
+  /**
+   * Event which fires every time a navigator handles an action, including actions which bubble through several navigators.
+   * `noop` is `true` when the action didn't change the state of the navigator.
+   * This is meant for debugging tools and its behaviour can change between versions.
+   */
+  __unsafe_action__: { action: NavigationAction; noop: boolean };
+};
+
 export type NavigationContainerRef =
-  | (NavigationHelpers<ParamListBase> & {
-      /**
-       * Reset the navigation state of the root navigator to the provided state.
-       *
-       * @param state Navigation state object.
-       */
-      resetRoot(state?: PartialState<NavigationState> | NavigationState): void;
-      getRootState(): NavigationState;
-    })
+  | (NavigationHelpers<ParamListBase> &
+      EventConsumer<NavigationContainerEventMap> & {
+        /**
+         * Reset the navigation state of the root navigator to the provided state.
+         *
+         * @param state Navigation state object.
+         */
+        resetRoot(
+          state?: PartialState<NavigationState> | NavigationState
+        ): void;
+        getRootState(): NavigationState;
+        /**
+         * Whether the navigators have been rendered and actions can be dispatched.
+         */
+        isReady(): boolean;
+        /**
+         * Go back to the state of the previous entry in the recorded history.
+         * Requires the `historyRecorder` option on the container.
+         */
+        undo(): void;
+        /**
+         * Go forward to the state of the next entry in the recorded history.
+         * Requires the `historyRecorder` option on the container.
+         */
+        redo(): void;
+        /**
+         * Go to the state of the entry at the given index in the recorded history.
+         * Requires the `historyRecorder` option on the container.
+         *
+         * @param index Index of the entry in the history.
+         */
+        jumpTo(index: number): void;
+        /**
+         * Get the recorded history. The returned object can be serialized to JSON, e.g. for crash reports.
+         */
+        getHistory(): NavigationHistory;
+      })
   | undefined
   | null;
 
+export type NavigationContainerRefWithCurrent = Omit<
+  NonNullable<NavigationContainerRef>,
+  'getRootState'
+> & {
+  /**
+   * Get the navigation state of the root navigator, or `undefined` if no container is mounted.
+   */
+  getRootState(): NavigationState | undefined;
+  /**
+   * The container which is currently mounted with this ref, if any.
+   */
+  current: NavigationContainerRef;
+};
+
 export type TypedNavigator<
   ParamList extends ParamListBase,
   ScreenOptions extends object,
@@ -604,3 +886,134 @@ export type TypedNavigator<
     _: RouteConfig<ParamList, RouteName, ScreenOptions>
   ) => null;
 };
+
+/**
+ * Names of the params of a route.
+ * When the param list isn't typed, any name can be specified.
+ */
+type ParamName<
+  ParamList extends ParamListBase,
+  RouteName extends keyof ParamList
+> = string extends keyof ParamList
+  ? string
+  : Extract<keyof NonNullable<ParamList[RouteName]>, string>;
+
+/**
+ * Params of a route in `NavigatorScreenParams`, distributed over the union of the routes.
+ */
+type NestedRouteParams<Params, RouteName> = Params extends {
+  screen: RouteName;
+  params?: infer P;
+}
+  ? Extract<P, object | undefined>
+  : never;
+
+/**
+ * Param list of the navigator rendered in a route, when its params are `NavigatorScreenParams`.
+ * Otherwise, any route name can be specified.
+ */
+type NestedParamList<Params> = [NonNullable<Params>] extends [
+  { screen: infer RouteName }
+]
+  ? {
+      [Name in Extract<RouteName, string>]: NestedRouteParams<
+        NonNullable<Params>,
+        Name
+      >;
+    }
+  : ParamListBase;
+
+/**
+ * Functions to parse or stringify the params of a route.
+ * When the param list isn't typed, any param can be specified.
+ */
+type ParamsConfig<
+  ParamList extends ParamListBase,
+  RouteName extends keyof ParamList,
+  Callback extends 'parse' | 'stringify'
+> = string extends keyof ParamList
+  ? {
+      [param: string]:
+        | (Callback extends 'parse'
+            ? (value: string) => any
+            : (value: any) => string)
+        | undefined;
+    }
+  : {
+      [Param in keyof NonNullable<
+        ParamList[RouteName]
+      >]?: Callback extends 'parse'
+        ? (value: string) => NonNullable<ParamList[RouteName]>[Param]
+        : (value: NonNullable<ParamList[RouteName]>[Param]) => string;
+    };
+
+export type PathConfig<
+  ParamList extends ParamListBase = ParamListBase,
+  RouteName extends keyof ParamList = keyof ParamList
+> = {
+  /**
+   * Path pattern for the screen, e.g. `chat/:author/:id`.
+   * The pattern is relative to the path of the parent screen.
+   * If not specified, the screen doesn't add any segments to the path, which is useful for screens rendering a navigator.
+   *
+   * Params can be optional (`user/:id?`), and a wildcard matches the rest of the path (`files/*` or `files/*path`).
+   * A screen with a wildcard path such as `*` can be used as a catch-all for paths which don't match any other screen.
+   */
+  path?: string;
+  /**
+   * Whether the pattern should only match the whole path.
+   * By default, the pattern matches the beginning of the path, and the remaining segments are parsed as nested routes.
+   */
+  exact?: boolean;
+  /**
+   * Functions to parse the params from the path or query string, e.g. `{ id: Number }`.
+   * When the param list is typed, only the params of the route can be specified.
+   */
+  parse?: ParamsConfig<ParamList, RouteName, 'parse'>;
+  /**
+   * Functions to convert the params to strings for the path or query string.
+   * When the param list is typed, only the params of the route can be specified.
+   */
+  stringify?: ParamsConfig<ParamList, RouteName, 'stringify'>;
+  /**
+   * Options to fine-tune how the params which aren't in the path are put in the query string.
+   */
+  query?: {
+    /**
+     * How arrays are encoded in the query string:
+     * - `none`: `foo=1&foo=2` (default)
+     * - `bracket`: `foo[]=1&foo[]=2`
+     * - `index`: `foo[0]=1&foo[1]=2`
+     * - `comma`: `foo=1,2`
+     */
+    arrayFormat?: 'none' | 'bracket' | 'index' | 'comma';
+    /**
+     * Params which are encoded as JSON, e.g. for nested objects.
+     * They are parsed back with `JSON.parse` when parsing the path.
+     */
+    json?: Array<ParamName<ParamList, RouteName>>;
+    /**
+     * Params which are never put in the URL, and are ignored if they're in the query string.
+     */
+    exclude?: Array<ParamName<ParamList, RouteName>>;
+    /**
+     * Params in the query string which belong to this screen.
+     * By default, all the params in the query string are assigned to the focused screen.
+     * This is useful to keep the params of a screen rendering a navigator in the URL.
+     */
+    params?: Array<ParamName<ParamList, RouteName>>;
+  };
+  /**
+   * Config for the screens of the navigator rendered in this screen.
+   * When the params of the screen are typed with `NavigatorScreenParams`, only the routes of the nested navigator can be specified.
+   */
+  screens?: PathConfigMap<NestedParamList<ParamList[RouteName]>>;
+};
+
+/**
+ * Linking config for the screens of a navigator.
+ * Pass the param list of the navigator to only allow its route names as keys, e.g. `PathConfigMap<RootParamList>`.
+ */
+export type PathConfigMap<ParamList extends ParamListBase = ParamListBase> = {
+  [RouteName in keyof ParamList]?: string | PathConfig<ParamList, RouteName>;
+};
@@ -0,0 +1,33 @@
+import * as React from 'react';
+import { ChildBeforeRemoveListener } from './NavigationBuilderContext';
+
+/**
+ * Hook which lets child navigators add listeners to be called before the route rendering them is removed.
+ */
+export default function useChildBeforeRemoveListeners() {
+  const { current: beforeRemoveListeners } = React.useRef<
+    Record<string, ChildBeforeRemoveListener[] | undefined>
+  >({});
+
+  const addBeforeRemoveListener = React.useCallback(
+    (key: string, listener: ChildBeforeRemoveListener) => {
+      // Keep a list of listeners for each route so that a listener being removed doesn't remove the others
+      const listeners = beforeRemoveListeners[key] || [];
+
+      listeners.push(listener);
+      beforeRemoveListeners[key] = listeners;
+
+      return () => {
+        const index = listeners.indexOf(listener);
+
+        listeners.splice(index, 1);
+      };
+    },
+    [beforeRemoveListeners]
+  );
+
+  return {
+    beforeRemoveListeners,
+    addBeforeRemoveListener,
+  };
+}
@@ -2,6 +2,7 @@ import * as React from 'react';
 import SceneView from './SceneView';
 import NavigationBuilderContext, {
   ChildActionListener,
+  ChildBeforeRemoveListener,
   FocusedNavigationListener,
   NavigatorStateGetter,
 } from './NavigationBuilderContext';
@@ -37,6 +38,10 @@ type Options<State extends NavigationState, ScreenOptions extends object> = {
   addActionListener: (listener: ChildActionListener) => void;
   addFocusedListener: (listener: FocusedNavigationListener) => void;
   addStateGetter: (key: string, getter: NavigatorStateGetter) => void;
+  addBeforeRemoveListener: (
+    key: string,
+    listener: ChildBeforeRemoveListener
+  ) => void;
   onRouteFocus: (key: string) => void;
   router: Router<State, NavigationAction>;
   emitter: NavigationEventEmitter;
@@ -64,12 +69,20 @@ export default function useDescriptors<
   addActionListener,
   addFocusedListener,
   addStateGetter,
+  addBeforeRemoveListener,
   onRouteFocus,
   router,
   emitter,
 }: Options<State, ScreenOptions>) {
   const [options, setOptions] = React.useState<Record<string, object>>({});
-  const { trackAction } = React.useContext(NavigationBuilderContext);
+  const {
+    trackAction,
+    middleware,
+    allowNonSerializableParams,
+    onActionHandled,
+    onActionDispatched,
+    onActionError,
+  } = React.useContext(NavigationBuilderContext);
 
   const context = React.useMemo(
     () => ({
@@ -78,8 +91,14 @@ export default function useDescriptors<
       addActionListener,
       addFocusedListener,
       addStateGetter,
+      addBeforeRemoveListener,
       onRouteFocus,
       trackAction,
+      middleware,
+      allowNonSerializableParams,
+      onActionHandled,
+      onActionDispatched,
+      onActionError,
     }),
     [
       navigation,
@@ -88,7 +107,13 @@ export default function useDescriptors<
       addFocusedListener,
       onRouteFocus,
       addStateGetter,
+      addBeforeRemoveListener,
       trackAction,
+      middleware,
+      allowNonSerializableParams,
+      onActionHandled,
+      onActionDispatched,
+      onActionError,
     ]
   );
 
@@ -1,5 +1,10 @@
 import * as React from 'react';
-import { NavigationState, NavigationAction, PartialState } from './types';
+import {
+  NavigationState,
+  NavigationAction,
+  PartialState,
+  DevToolsTransport,
+} from './types';
 
 type State = NavigationState | PartialState<NavigationState> | undefined;
 
@@ -7,14 +12,7 @@ type Options = {
   name: string;
   reset: (state: NavigationState) => void;
   state: State;
-};
-
-type DevTools = {
-  init(value: any): void;
-  send(action: any, value: any): void;
-  subscribe(
-    listener: (message: { type: string; [key: string]: any }) => void
-  ): () => void;
+  transport?: DevToolsTransport;
 };
 
 declare global {
@@ -23,7 +21,7 @@ declare global {
     interface Global {
       __REDUX_DEVTOOLS_EXTENSION__:
         | {
-            connect(options: { name: string }): DevTools;
+            connect(options: { name: string }): DevToolsTransport;
             disconnect(): void;
           }
         | undefined;
@@ -31,15 +29,26 @@ declare global {
   }
 }
 
-export default function useDevTools({ name, reset, state }: Options) {
-  const devToolsRef = React.useRef<DevTools>();
-
-  if (
-    process.env.NODE_ENV !== 'production' &&
-    global.__REDUX_DEVTOOLS_EXTENSION__ &&
-    devToolsRef.current === undefined
-  ) {
-    devToolsRef.current = global.__REDUX_DEVTOOLS_EXTENSION__.connect({ name });
+export default function useDevTools({
+  name,
+  reset,
+  state,
+  transport,
+}: Options) {
+  const devToolsRef = React.useRef<DevToolsTransport>();
+
+  if (devToolsRef.current === undefined) {
+    if (transport !== undefined) {
+      // A transport passed explicitly is used regardless of the environment
+      devToolsRef.current = transport;
+    } else if (
+      process.env.NODE_ENV !== 'production' &&
+      global.__REDUX_DEVTOOLS_EXTENSION__
+    ) {
+      devToolsRef.current = global.__REDUX_DEVTOOLS_EXTENSION__.connect({
+        name,
+      });
+    }
   }
 
   const devTools = devToolsRef.current;
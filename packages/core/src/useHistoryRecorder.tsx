@@ -0,0 +1,125 @@
+import * as React from 'react';
+import {
+  NavigationState,
+  NavigationAction,
+  NavigationHistory,
+  NavigationHistoryEntry,
+  HistoryRecorderOptions,
+} from './types';
+
+type Options = {
+  options: HistoryRecorderOptions | undefined;
+  reset: (state: NavigationState) => void;
+};
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Hook to record the actions and the resulting root states in a bounded history.
+ * The recorded history can be used to undo and redo navigation changes, and exported for debugging.
+ */
+export default function useHistoryRecorder({ options, reset }: Options) {
+  const isEnabled = options !== undefined;
+  const limit =
+    options !== undefined && options.limit !== undefined
+      ? options.limit
+      : DEFAULT_LIMIT;
+
+  const entriesRef = React.useRef<NavigationHistoryEntry[]>([]);
+  const indexRef = React.useRef(-1);
+  const actions = React.useRef<Array<NavigationAction | string>>([]);
+
+  const record = React.useCallback(
+    (action: NavigationAction | string, state: NavigationState) => {
+      // If some entries were undone, recording a new entry discards them
+      const entries = entriesRef.current.slice(0, indexRef.current + 1);
+
+      entries.push({ action, state, timestamp: Date.now() });
+
+      // Drop the oldest entries when the history is full
+      entriesRef.current = entries.slice(Math.max(entries.length - limit, 0));
+      indexRef.current = entriesRef.current.length - 1;
+    },
+    [limit]
+  );
+
+  const trackState = React.useCallback(
+    (getState: () => NavigationState | undefined) => {
+      if (!isEnabled) {
+        return;
+      }
+
+      const state = getState();
+
+      if (state === undefined) {
+        actions.current = [];
+        return;
+      }
+
+      const entries = entriesRef.current;
+      const lastState =
+        indexRef.current === -1 ? undefined : entries[indexRef.current].state;
+
+      // If multiple actions were handled before the state changed, only the last one resulted in the new state
+      while (actions.current.length > 1 && lastState !== undefined) {
+        record(actions.current.shift() as NavigationAction | string, lastState);
+      }
+
+      if (actions.current.length) {
+        record(actions.current.pop() as NavigationAction | string, state);
+      } else {
+        record(entries.length ? '@@UNKNOWN' : '@@INIT', state);
+      }
+
+      actions.current = [];
+    },
+    [isEnabled, record]
+  );
+
+  const trackAction = React.useCallback(
+    (action: NavigationAction | string) => {
+      if (!isEnabled) {
+        return;
+      }
+
+      actions.current.push(action);
+    },
+    [isEnabled]
+  );
+
+  const jumpTo = React.useCallback(
+    (index: number) => {
+      const entry = entriesRef.current[index];
+
+      if (entry === undefined || index === indexRef.current) {
+        return;
+      }
+
+      indexRef.current = index;
+      reset(entry.state);
+    },
+    [reset]
+  );
+
+  const undo = React.useCallback(() => jumpTo(indexRef.current - 1), [jumpTo]);
+
+  const redo = React.useCallback(() => jumpTo(indexRef.current + 1), [jumpTo]);
+
+  const getHistory = React.useCallback(
+    (): NavigationHistory => ({
+      index: indexRef.current,
+      // Return a copy so that changes to the list don't affect the recorded history
+      entries: entriesRef.current.slice(),
+    }),
+    []
+  );
+
+  return {
+    trackAction,
+    trackState,
+    undo,
+    redo,
+    jumpTo,
+    getHistory,
+  };
+}
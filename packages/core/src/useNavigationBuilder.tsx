@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { NavigationStateContext } from './NavigationContainer';
+import NavigationBuilderContext from './NavigationBuilderContext';
 import NavigationRouteContext from './NavigationRouteContext';
 import Screen from './Screen';
 import { navigate } from './CommonActions';
@@ -20,12 +21,14 @@ import {
   ParamListBase,
   RouteConfig,
   Router,
+  RouterConfigOptions,
   RouterFactory,
   PartialState,
   PrivateValueStore,
   NavigationAction,
 } from './types';
 import useStateGetters from './useStateGetters';
+import useChildBeforeRemoveListeners from './useChildBeforeRemoveListeners';
 import useOnGetState from './useOnGetState';
 
 // This is to make TypeScript compiler happy
@@ -157,6 +160,17 @@ export default function useNavigationBuilder<
     },
     {}
   );
+  const routeGetIdList = routeNames.reduce<
+    NonNullable<RouterConfigOptions['routeGetIdList']>
+  >((acc, curr) => {
+    const { getId } = screens[curr];
+
+    if (getId) {
+      acc[curr] = getId;
+    }
+
+    return acc;
+  }, {});
 
   if (!routeNames.length) {
     throw new Error(
@@ -201,10 +215,12 @@ export default function useNavigationBuilder<
         ? router.getInitialState({
             routeNames,
             routeParamList,
+            routeGetIdList,
           })
         : router.getRehydratedState(currentState as PartialState<State>, {
             routeNames,
             routeParamList,
+            routeGetIdList,
           });
   }
 
@@ -227,6 +243,7 @@ export default function useNavigationBuilder<
     nextState = router.getStateForRouteNamesChange(state, {
       routeNames,
       routeParamList,
+      routeGetIdList,
     });
   }
 
@@ -245,6 +262,7 @@ export default function useNavigationBuilder<
       {
         routeNames,
         routeParamList,
+        routeGetIdList,
       }
     );
 
@@ -253,6 +271,7 @@ export default function useNavigationBuilder<
         ? router.getRehydratedState(updatedState, {
             routeNames,
             routeParamList,
+            routeGetIdList,
           })
         : state;
   }
@@ -305,16 +324,30 @@ export default function useNavigationBuilder<
 
   const { getStateForRoute, addStateGetter } = useStateGetters();
 
+  const {
+    beforeRemoveListeners,
+    addBeforeRemoveListener,
+  } = useChildBeforeRemoveListeners();
+
+  const { allowNonSerializableParams } = React.useContext(
+    NavigationBuilderContext
+  );
+
   const onAction = useOnAction({
     router,
     getState,
     setState,
     key,
     listeners: actionListeners,
+    beforeRemoveListeners,
     routerConfigOptions: {
       routeNames,
       routeParamList,
+      routeGetIdList,
+      allowNonSerializableParams,
     },
+    screens,
+    emitter,
   });
 
   const onRouteFocus = useOnRouteFocus({
@@ -353,6 +386,7 @@ export default function useNavigationBuilder<
     addActionListener,
     addFocusedListener,
     addStateGetter,
+    addBeforeRemoveListener,
     router,
     emitter,
   });
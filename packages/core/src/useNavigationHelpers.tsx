@@ -1,9 +1,11 @@
 import * as React from 'react';
 import * as CommonActions from './CommonActions';
+import NavigationBuilderContext from './NavigationBuilderContext';
 import NavigationContext from './NavigationContext';
 import ResetRootContext from './ResetRootContext';
 import { NavigationStateContext } from './NavigationContainer';
 import { NavigationEventEmitter } from './useEventEmitter';
+import warnNonSerializableParams from './warnNonSerializableParams';
 import {
   NavigationHelpers,
   NavigationProp,
@@ -40,15 +42,50 @@ export default function useNavigationHelpers<
   const resetRoot = React.useContext(ResetRootContext);
   const parentNavigationHelpers = React.useContext(NavigationContext);
   const { performTransaction } = React.useContext(NavigationStateContext);
+  const { allowNonSerializableParams, onActionError } = React.useContext(
+    NavigationBuilderContext
+  );
 
   return React.useMemo(() => {
-    const dispatch = (action: Action | ((state: State) => Action)) =>
+    const dispatch = (action: Action | ((state: State) => Action)) => {
+      // React can run the transaction more than once if it throws, so we only report the first error
+      let hasReportedError = false;
+
       performTransaction(() => {
         const payload =
           typeof action === 'function' ? action(getState()) : action;
 
-        onAction(payload);
+        if (
+          process.env.NODE_ENV !== 'production' &&
+          !allowNonSerializableParams
+        ) {
+          // Actions which update params of an existing route such as `SET_PARAMS` are checked by the router
+          // Here we check actions such as `NAVIGATE` which specify the route to pass the params to
+          const { payload: data } = payload as {
+            payload?: { name?: string; key?: string; params?: object };
+          };
+
+          if (data && typeof data.name === 'string') {
+            warnNonSerializableParams(
+              data.params,
+              data.key !== undefined ? data.key : data.name
+            );
+          }
+        }
+
+        try {
+          onAction(payload);
+        } catch (e) {
+          // Errors thrown by the routers or the middleware are reported to the container before they're rethrown
+          if (onActionError && !hasReportedError) {
+            hasReportedError = true;
+            onActionError(payload, e);
+          }
+
+          throw e;
+        }
       });
+    };
 
     const actions = {
       ...router.actionCreators,
@@ -95,5 +132,7 @@ export default function useNavigationHelpers<
     emitter.emit,
     performTransaction,
     onAction,
+    allowNonSerializableParams,
+    onActionError,
   ]);
 }
@@ -1,11 +1,17 @@
 import * as React from 'react';
 import NavigationBuilderContext, {
   ChildActionListener,
+  ChildBeforeRemoveListener,
 } from './NavigationBuilderContext';
+import { NavigationStateContext } from './NavigationContainer';
+import NavigationRouteContext from './NavigationRouteContext';
+import { NavigationEventEmitter } from './useEventEmitter';
 import {
   NavigationAction,
   NavigationState,
+  ParamListBase,
   PartialState,
+  RouteConfig,
   Router,
   RouterConfigOptions,
 } from './types';
@@ -16,7 +22,13 @@ type Options = {
   getState: () => NavigationState;
   setState: (state: NavigationState | PartialState<NavigationState>) => void;
   listeners: ChildActionListener[];
+  beforeRemoveListeners: Record<
+    string,
+    ChildBeforeRemoveListener[] | undefined
+  >;
   routerConfigOptions: RouterConfigOptions;
+  screens: Record<string, RouteConfig<ParamListBase, string, object>>;
+  emitter: NavigationEventEmitter;
 };
 
 /**
@@ -27,6 +39,17 @@ type Options = {
  * 2. To bubble action to child, child adds event listeners subscribing to actions from parent
  *
  * When the action handler handles as action, it returns `true`, otherwise `false`.
+ *
+ * Before the new state is applied, the routes which will be removed receive a `beforeRemove` event,
+ * along with all routes of the navigators nested in them,
+ * and the route which will be focused has its `beforeEnter` guard called.
+ * If the event was prevented or the guard returned `false`, the action is treated as handled without changing the state.
+ *
+ * Before the action is handled, it's passed through the middleware provided to the container.
+ * The middleware only runs in the navigator where the action was dispatched, not when the action bubbles.
+ *
+ * The container is notified when a navigator handles the action, and whether any navigator handled it at all.
+ * If a middleware throws after delaying the action, the container is notified of the error before it's rethrown.
  */
 export default function useOnAction({
   router,
@@ -34,28 +57,117 @@ export default function useOnAction({
   setState,
   key,
   listeners,
+  beforeRemoveListeners,
   routerConfigOptions,
+  screens,
+  emitter,
 }: Options) {
   const {
     onAction: onActionParent,
     onRouteFocus: onRouteFocusParent,
     addActionListener: addActionListenerParent,
+    addBeforeRemoveListener: addBeforeRemoveListenerParent,
     trackAction,
+    middleware,
+    onActionHandled,
+    onActionDispatched,
+    onActionError,
   } = React.useContext(NavigationBuilderContext);
 
+  const { performTransaction } = React.useContext(NavigationStateContext);
+  const route = React.useContext(NavigationRouteContext);
+
   const routerConfigOptionsRef = React.useRef<RouterConfigOptions>(
     routerConfigOptions
   );
+  const screensRef = React.useRef(screens);
 
   React.useEffect(() => {
     routerConfigOptionsRef.current = routerConfigOptions;
+    screensRef.current = screens;
   });
 
-  const onAction = React.useCallback(
+  const shouldPreventRemove = React.useCallback(
+    (action: NavigationAction, routeKeys: string[]) => {
+      for (const routeKey of routeKeys) {
+        const event = emitter.emit({
+          type: 'beforeRemove',
+          target: routeKey,
+          data: { action },
+        });
+
+        if (event.defaultPrevented) {
+          return true;
+        }
+
+        // Navigators rendered in the route are removed along with it, so their routes are notified too
+        const childListeners = beforeRemoveListeners[routeKey];
+
+        if (
+          childListeners !== undefined &&
+          childListeners.some(listener => listener(action))
+        ) {
+          return true;
+        }
+      }
+
+      return false;
+    },
+    [emitter, beforeRemoveListeners]
+  );
+
+  const shouldPreventAction = React.useCallback(
     (
       action: NavigationAction,
-      visitedNavigators: Set<string> = new Set<string>()
+      state: NavigationState,
+      result: NavigationState | PartialState<NavigationState>
     ) => {
+      const nextRouteKeys = (result.routes as Array<{ key?: string }>).map(
+        route => route.key
+      );
+      const removedRouteKeys = state.routes
+        .map(route => route.key)
+        .filter(routeKey => !nextRouteKeys.includes(routeKey));
+
+      if (shouldPreventRemove(action, removedRouteKeys)) {
+        return true;
+      }
+
+      if (typeof result.index !== 'number') {
+        // We can't know which route will be focused if the state doesn't specify an index
+        return false;
+      }
+
+      const focusedRoute = result.routes[result.index];
+
+      if (
+        focusedRoute === undefined ||
+        (focusedRoute.key !== undefined &&
+          focusedRoute.key === state.routes[state.index].key)
+      ) {
+        return false;
+      }
+
+      const screen = screensRef.current[focusedRoute.name];
+
+      return Boolean(
+        screen &&
+          screen.beforeEnter &&
+          screen.beforeEnter({
+            // @ts-ignore
+            route: focusedRoute,
+            action,
+          }) === false
+      );
+    },
+    [shouldPreventRemove]
+  );
+
+  const handleAction = React.useCallback(
+    (
+      action: NavigationAction,
+      visitedNavigators: Set<string> = new Set<string>()
+    ): boolean => {
       const state = getState();
 
       // Since actions can bubble both up and down, they could come to the same navigator again
@@ -81,8 +193,18 @@ export default function useOnAction({
       result = result === null && action.target === state.key ? state : result;
 
       if (result !== null) {
+        if (state !== result && shouldPreventAction(action, state, result)) {
+          // The action was prevented, so we don't update the state
+          // We still treat it as handled so that it doesn't bubble to other navigators
+          return true;
+        }
+
         trackAction(action);
 
+        if (onActionHandled) {
+          onActionHandled(action, state === result);
+        }
+
         if (state !== result) {
           setState(result);
         }
@@ -123,10 +245,95 @@ export default function useOnAction({
       router,
       onActionParent,
       trackAction,
+      onActionHandled,
       onRouteFocusParent,
       setState,
       key,
       listeners,
+      shouldPreventAction,
+    ]
+  );
+
+  const onAction = React.useCallback(
+    (action: NavigationAction, visitedNavigators?: Set<string>) => {
+      if (visitedNavigators !== undefined) {
+        // The action is being bubbled from another navigator, so it has already passed the middleware
+        return handleAction(action, visitedNavigators);
+      }
+
+      const dispatchAction = (action: NavigationAction) => {
+        const handled = handleAction(action);
+
+        // Since the action was dispatched in this navigator, we know the result after it has bubbled through the tree
+        if (onActionDispatched) {
+          onActionDispatched(action, handled);
+        }
+
+        return handled;
+      };
+
+      if (middleware === undefined || middleware.length === 0) {
+        return dispatchAction(action);
+      }
+
+      const applyMiddleware = (index: number, action: NavigationAction) => {
+        if (index === middleware.length) {
+          return dispatchAction(action);
+        }
+
+        const state = getState();
+
+        let isSync = true;
+
+        const next = (action: NavigationAction) => {
+          if (isSync) {
+            return applyMiddleware(index + 1, action);
+          }
+
+          // If the middleware delayed the action, we need to start a new transaction to update the state
+          // The errors can't be caught where the action was dispatched anymore, so we report them here
+          let handled = false;
+          let hasReportedError = false;
+
+          performTransaction(() => {
+            try {
+              handled = applyMiddleware(index + 1, action);
+            } catch (e) {
+              if (onActionError && !hasReportedError) {
+                hasReportedError = true;
+                onActionError(action, e);
+              }
+
+              throw e;
+            }
+          });
+
+          return handled;
+        };
+
+        const handled = middleware[index](
+          {
+            action,
+            state,
+            target: action.target !== undefined ? action.target : state.key,
+          },
+          next
+        );
+
+        isSync = false;
+
+        return handled;
+      };
+
+      return applyMiddleware(0, action);
+    },
+    [
+      getState,
+      handleAction,
+      middleware,
+      performTransaction,
+      onActionDispatched,
+      onActionError,
     ]
   );
 
@@ -135,5 +342,20 @@ export default function useOnAction({
     [addActionListenerParent, onAction]
   );
 
+  React.useEffect(() => {
+    if (route === undefined || addBeforeRemoveListenerParent === undefined) {
+      return;
+    }
+
+    return addBeforeRemoveListenerParent(route.key, action => {
+      const state = getState();
+
+      return shouldPreventRemove(
+        action,
+        state.routes.map(route => route.key)
+      );
+    });
+  }, [addBeforeRemoveListenerParent, getState, route, shouldPreventRemove]);
+
   return onAction;
 }
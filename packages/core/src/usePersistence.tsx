@@ -0,0 +1,205 @@
+import * as React from 'react';
+import migrateState from './migrateState';
+import { InitialState, NavigationState, PersistenceOptions } from './types';
+
+type Options = {
+  persistence: PersistenceOptions | undefined;
+  onRestore: (state: InitialState | undefined) => void;
+};
+
+const DEFAULT_KEY = '@react-navigation/state';
+const DEFAULT_DEBOUNCE = 300;
+const DEFAULT_VERSION = 0;
+
+type PersistedState = { version?: number; state: InitialState };
+
+type StateLike = {
+  type?: string;
+  routes: Array<{ key?: string; name: string; state?: StateLike }>;
+};
+
+/**
+ * Check if a persisted state survived rehydration by the navigators.
+ * Routers drop routes which don't exist anymore (e.g. a renamed screen) during rehydration.
+ * If any of the persisted routes is missing in the rehydrated state, the persisted state doesn't fit the screens.
+ *
+ * @param persisted State object which was read from the storage.
+ * @param rehydrated State object after it was rehydrated by the navigators.
+ */
+const isStateRestorable = (
+  persisted: StateLike,
+  rehydrated: StateLike | undefined
+): boolean => {
+  if (rehydrated === undefined) {
+    // The navigator for this state hasn't been rendered, so there's nothing to compare against
+    return true;
+  }
+
+  if (persisted.type !== undefined && persisted.type !== rehydrated.type) {
+    return false;
+  }
+
+  return persisted.routes.every(route => {
+    const match = rehydrated.routes.find(r =>
+      route.key !== undefined ? r.key === route.key : r.name === route.name
+    );
+
+    if (match === undefined) {
+      return false;
+    }
+
+    return (
+      route.state === undefined || isStateRestorable(route.state, match.state)
+    );
+  });
+};
+
+/**
+ * Hook to restore the navigation state from a storage and persist it when it changes.
+ */
+export default function usePersistence({ persistence, onRestore }: Options) {
+  const [isRestoring, setIsRestoring] = React.useState(
+    persistence !== undefined
+  );
+
+  const persistenceRef = React.useRef(persistence);
+  const onRestoreRef = React.useRef(onRestore);
+  const restoredStateRef = React.useRef<InitialState | undefined>();
+  const timerRef = React.useRef<ReturnType<typeof setTimeout>>();
+  const pendingWriteRef = React.useRef<(() => void) | undefined>();
+
+  React.useEffect(() => {
+    persistenceRef.current = persistence;
+    onRestoreRef.current = onRestore;
+  });
+
+  React.useEffect(() => {
+    const persistence = persistenceRef.current;
+
+    if (persistence === undefined) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    const {
+      storage,
+      key = DEFAULT_KEY,
+      version = DEFAULT_VERSION,
+      migrations,
+    } = persistence;
+
+    storage
+      .getItem(key)
+      // The state is stored along with the version of the schema it was saved with
+      .then((value): PersistedState | undefined =>
+        value == null ? undefined : JSON.parse(value)
+      )
+      // If the stored state can't be read or parsed, we start with the initial state instead
+      .catch(() => undefined)
+      .then(persisted => {
+        if (persisted === undefined) {
+          return undefined;
+        }
+
+        try {
+          return migrateState(persisted.state, {
+            from:
+              typeof persisted.version === 'number'
+                ? persisted.version
+                : DEFAULT_VERSION,
+            to: version,
+            migrations,
+          });
+        } catch (e) {
+          // A missing or failing migration is a bug in the app, so we report it instead of ignoring it silently
+          if (process.env.NODE_ENV !== 'production') {
+            console.error(e);
+          }
+
+          return undefined;
+        }
+      })
+      .then(state => {
+        if (isCancelled) {
+          return;
+        }
+
+        restoredStateRef.current = state;
+        onRestoreRef.current(state);
+        setIsRestoring(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  React.useEffect(
+    () => () => {
+      // Write any pending state immediately on unmount, so that the last change isn't lost
+      if (timerRef.current !== undefined) {
+        clearTimeout(timerRef.current);
+      }
+
+      if (pendingWriteRef.current) {
+        pendingWriteRef.current();
+      }
+    },
+    []
+  );
+
+  const persistState = React.useCallback(
+    (state: NavigationState | undefined) => {
+      const persistence = persistenceRef.current;
+
+      if (persistence === undefined || state === undefined) {
+        return;
+      }
+
+      const {
+        storage,
+        key = DEFAULT_KEY,
+        debounce = DEFAULT_DEBOUNCE,
+        version = DEFAULT_VERSION,
+      } = persistence;
+
+      const write = () => {
+        pendingWriteRef.current = undefined;
+
+        // Failing to persist the state shouldn't crash the app, the state will be written on next change
+        storage
+          .setItem(key, JSON.stringify({ version, state }))
+          .catch(() => undefined);
+      };
+
+      if (timerRef.current !== undefined) {
+        clearTimeout(timerRef.current);
+      }
+
+      pendingWriteRef.current = write;
+      timerRef.current = setTimeout(write, debounce);
+    },
+    []
+  );
+
+  const isRestoredStateValid = React.useCallback(
+    (state: NavigationState | undefined) => {
+      const restoredState = restoredStateRef.current;
+
+      // The restored state only needs to be verified once after the navigators have rehydrated it
+      restoredStateRef.current = undefined;
+
+      return (
+        restoredState === undefined || isStateRestorable(restoredState, state)
+      );
+    },
+    []
+  );
+
+  return {
+    isRestoring,
+    isRestoredStateValid,
+    persistState,
+  };
+}
@@ -0,0 +1,238 @@
+import findNonSerializableValues, {
+  isPlainObject,
+} from './findNonSerializableValues';
+import warnNonSerializableParams from './warnNonSerializableParams';
+import { StateValidationIssue } from './types';
+
+type Options = {
+  /**
+   * Route names which are valid for the routes at the top level of the state.
+   * Nested states are checked against their own `routeNames` if they specify them.
+   */
+  routeNames?: string[];
+  /**
+   * Whether to report params which can't be serialized. Defaults to `true`.
+   */
+  params?: boolean;
+};
+
+const validateRoutes = (
+  state: any,
+  path: string,
+  routeNames: string[] | undefined,
+  params: boolean,
+  keys: Record<string, string>,
+  issues: StateValidationIssue[]
+) => {
+  if (!isPlainObject(state)) {
+    issues.push({
+      path,
+      message: `Expected the state to be an object, but got '${
+        state === null ? 'null' : typeof state
+      }'.`,
+    });
+    return;
+  }
+
+  if (state.key !== undefined && typeof state.key !== 'string') {
+    issues.push({
+      path: `${path}.key`,
+      message: `Expected the key to be a string, but got '${typeof state.key}'.`,
+    });
+  }
+
+  if (state.type !== undefined && typeof state.type !== 'string') {
+    issues.push({
+      path: `${path}.type`,
+      message: `Expected the type to be a string, but got '${typeof state.type}'.`,
+    });
+  }
+
+  if (state.routeNames !== undefined) {
+    if (
+      !Array.isArray(state.routeNames) ||
+      state.routeNames.some((name: any) => typeof name !== 'string')
+    ) {
+      issues.push({
+        path: `${path}.routeNames`,
+        message: 'Expected the route names to be an array of strings.',
+      });
+    } else {
+      routeNames = state.routeNames;
+    }
+  }
+
+  if (!Array.isArray(state.routes) || state.routes.length === 0) {
+    issues.push({
+      path: `${path}.routes`,
+      message: 'Expected the routes to be a non-empty array.',
+    });
+    return;
+  }
+
+  if (
+    state.index !== undefined &&
+    (typeof state.index !== 'number' ||
+      !Number.isInteger(state.index) ||
+      state.index < 0 ||
+      state.index >= state.routes.length)
+  ) {
+    issues.push({
+      path: `${path}.index`,
+      message: `Expected the index to be an integer between 0 and ${state.routes
+        .length - 1}, but got '${String(state.index)}'.`,
+    });
+  }
+
+  state.routes.forEach((route: any, i: number) => {
+    const routePath = `${path}.routes[${i}]`;
+
+    if (!isPlainObject(route)) {
+      issues.push({
+        path: routePath,
+        message: 'Expected the route to be an object.',
+      });
+      return;
+    }
+
+    if (typeof route.name !== 'string') {
+      issues.push({
+        path: `${routePath}.name`,
+        message: `Expected the route name to be a string, but got '${typeof route.name}'.`,
+      });
+    } else if (routeNames !== undefined && !routeNames.includes(route.name)) {
+      issues.push({
+        path: `${routePath}.name`,
+        message: `The route name '${
+          route.name
+        }' doesn't match any of the screens in the navigator (${routeNames
+          .map(name => `'${name}'`)
+          .join(', ')}).`,
+      });
+    }
+
+    if (route.key !== undefined) {
+      if (typeof route.key !== 'string') {
+        issues.push({
+          path: `${routePath}.key`,
+          message: `Expected the route key to be a string, but got '${typeof route.key}'.`,
+        });
+      } else if (keys[route.key] !== undefined) {
+        issues.push({
+          path: `${routePath}.key`,
+          message: `The route key '${
+            route.key
+          }' is already used by the route at '${
+            keys[route.key]
+          }'. Route keys need to be unique.`,
+        });
+      } else {
+        keys[route.key] = routePath;
+      }
+    }
+
+    if (route.params !== undefined) {
+      if (!isPlainObject(route.params)) {
+        issues.push({
+          path: `${routePath}.params`,
+          message: 'Expected the params to be an object.',
+        });
+      } else if (params) {
+        issues.push(
+          ...findNonSerializableValues(route.params, `${routePath}.params`)
+        );
+      }
+    }
+
+    if (route.state !== undefined) {
+      // The screens of nested navigators are unknown unless the state specifies them
+      validateRoutes(
+        route.state,
+        `${routePath}.state`,
+        undefined,
+        params,
+        keys,
+        issues
+      );
+    }
+  });
+};
+
+/**
+ * Utility to check if a state object is valid before using it, e.g. as initial state or for a reset.
+ * It checks for missing fields, out of bounds indices, duplicate keys, unknown route names and non-serializable params.
+ *
+ * Example:
+ * ```js
+ * validateState(state, { routeNames: ['Home', 'Profile'] })
+ * // [{ path: '$.routes[1].name', message: "The route name 'Settings' doesn't match ..." }]
+ * ```
+ *
+ * @param state State object to validate.
+ * @param options.routeNames Route names which are valid for the routes at the top level of the state.
+ * @param options.params Whether to report params which can't be serialized. Defaults to `true`.
+ * @returns List of problems found in the state along with their JSON paths, empty if the state is valid.
+ */
+export default function validateState(
+  state: unknown,
+  { routeNames, params = true }: Options = {}
+): StateValidationIssue[] {
+  const issues: StateValidationIssue[] = [];
+
+  validateRoutes(state, '$', routeNames, params, {}, issues);
+
+  return issues;
+}
+
+const warnStateParams = (state: any) => {
+  if (!isPlainObject(state) || !Array.isArray(state.routes)) {
+    return;
+  }
+
+  state.routes.forEach((route: any) => {
+    if (!isPlainObject(route)) {
+      return;
+    }
+
+    if (isPlainObject(route.params)) {
+      warnNonSerializableParams(
+        route.params,
+        typeof route.key === 'string' ? route.key : route.name
+      );
+    }
+
+    warnStateParams(route.state);
+  });
+};
+
+/**
+ * Throw an error describing all structural problems found in a state object, if any.
+ * Params which can't be serialized don't break navigation, so they only cause a warning.
+ *
+ * @param state State object to validate.
+ * @param options.routeNames Route names which are valid for the routes at the top level of the state.
+ * @param options.allowNonSerializableParams Whether to skip the warning for non-serializable params.
+ * @param source Description of where the state came from, used in the error message.
+ */
+export function assertValidState(
+  state: unknown,
+  {
+    routeNames,
+    allowNonSerializableParams,
+  }: { routeNames?: string[]; allowNonSerializableParams?: boolean },
+  source: string
+) {
+  const issues = validateState(state, { routeNames, params: false });
+
+  if (issues.length) {
+    throw new Error(
+      `The navigation state passed to ${source} is invalid:\n${issues
+        .map(issue => `- ${issue.path}: ${issue.message}`)
+        .join('\n')}`
+    );
+  }
+
+  if (!allowNonSerializableParams) {
+    warnStateParams(state);
+  }
+}
@@ -0,0 +1,36 @@
+import findNonSerializableValues from './findNonSerializableValues';
+
+const warnedRoutes = new Set<string>();
+
+/**
+ * Warn in development if the params contain values which can't be serialized, such as functions and class instances.
+ * Such params break persisting the state and deep linking, since they can't be converted to a string.
+ * The warning is only shown once for each route, so that updating the params doesn't spam the console.
+ *
+ * @param params Params object to check.
+ * @param route Key or name of the route which receives the params.
+ */
+export default function warnNonSerializableParams(
+  params: object | undefined,
+  route: string
+) {
+  if (warnedRoutes.has(route)) {
+    return;
+  }
+
+  const issues = findNonSerializableValues(params, 'params');
+
+  if (!issues.length) {
+    return;
+  }
+
+  warnedRoutes.add(route);
+
+  console.warn(
+    `Non-serializable values were found in the params of the route '${route}':\n${issues
+      .map(issue => `- ${issue.path}: ${issue.message}`)
+      .join(
+        '\n'
+      )}\n\nThis can break usage such as persisting and restoring the state or deep linking. If you're passing these values knowingly, you can pass 'allowNonSerializableParams' to 'NavigationContainer' to disable this warning.`
+  );
+}
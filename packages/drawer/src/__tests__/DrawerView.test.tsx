@@ -0,0 +1,196 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+} from '@react-navigation/core';
+import { DrawerActions } from '@react-navigation/routers';
+import createDrawerNavigator from '../navigators/createDrawerNavigator';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  I18nManager: { isRTL: false },
+  Dimensions: {
+    get: () => ({ width: 1024, height: 768 }),
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined,
+  },
+  StyleSheet: { create: (styles: object) => styles, absoluteFill: {} },
+  View: 'View',
+}));
+
+jest.mock('react-native-reanimated', () => ({
+  __esModule: true,
+  default: {
+    Value: class {
+      value: number;
+
+      constructor(value: number) {
+        this.value = value;
+      }
+    },
+  },
+}));
+
+jest.mock('react-native-gesture-handler', () => ({
+  PanGestureHandler: 'PanGestureHandler',
+}));
+
+// The package only has platform specific entry points, so it can't be resolved without the React Native preset
+jest.mock(
+  'react-native-screens',
+  () => ({
+    Screen: 'Screen',
+    ScreenContainer: 'ScreenContainer',
+    screensEnabled: () => false,
+  }),
+  { virtual: true }
+);
+
+jest.mock('react-native-safe-area-context', () => ({
+  SafeAreaProvider: ({ children }: any) => children,
+  SafeAreaConsumer: ({ children }: any) => children(null),
+}));
+
+// The modal drawer is animated with gestures, so we only check the props it receives
+jest.mock('../views/Drawer', () => ({
+  __esModule: true,
+  default: 'Drawer',
+}));
+
+// The default drawer content isn't rendered since a custom one is passed
+jest.mock('../views/DrawerContent', () => ({
+  __esModule: true,
+  default: 'DrawerContent',
+}));
+
+// The default drawer width on a tablet in landscape
+const DRAWER_WIDTH = 320;
+
+const COLLAPSED_DRAWER_WIDTH = 72;
+
+const Drawer = createDrawerNavigator();
+
+const DrawerContentMock = 'DrawerContentMock';
+
+const flatten = (style: any): any =>
+  Array.isArray(style)
+    ? Object.assign({}, ...style.map(flatten))
+    : style
+    ? style
+    : {};
+
+const App = React.forwardRef(
+  (
+    {
+      drawerMode,
+      initialState,
+    }: {
+      drawerMode?: 'modal' | 'permanent' | 'collapsed';
+      initialState?: any;
+    },
+    ref: React.Ref<NavigationContainerRef>
+  ) => (
+    <NavigationContainer ref={ref} initialState={initialState}>
+      <Drawer.Navigator
+        drawerMode={drawerMode}
+        drawerContent={({ progress }) => (
+          // @ts-ignore
+          <DrawerContentMock testID="drawer-content" progress={progress} />
+        )}
+      >
+        <Drawer.Screen name="Home">{() => null}</Drawer.Screen>
+        <Drawer.Screen name="Settings">{() => null}</Drawer.Screen>
+      </Drawer.Navigator>
+    </NavigationContainer>
+  )
+);
+
+const getDrawer = (root: ReturnType<typeof render>) => {
+  const content = root.getByTestId('drawer-content');
+
+  return {
+    width: flatten(content.parent.props.style).width,
+    progress: content.props.progress.value,
+  };
+};
+
+it('renders the drawer next to the content in permanent mode', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const root = render(<App ref={ref} drawerMode="permanent" />);
+
+  expect(root.queryByProps({ open: false })).toBe(null);
+  expect(getDrawer(root)).toEqual({ width: DRAWER_WIDTH, progress: 1 });
+
+  // The drawer can't be opened or closed in permanent mode
+  act(() => ref.current!.dispatch(DrawerActions.closeDrawer()));
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({ isDrawerOpen: false, drawerMode: 'permanent' })
+  );
+  expect(getDrawer(root)).toEqual({ width: DRAWER_WIDTH, progress: 1 });
+
+  root.unmount();
+});
+
+it('expands the drawer when it is opened in collapsed mode', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const root = render(<App ref={ref} drawerMode="collapsed" />);
+
+  expect(getDrawer(root)).toEqual({
+    width: COLLAPSED_DRAWER_WIDTH,
+    progress: 0,
+  });
+
+  act(() => ref.current!.dispatch(DrawerActions.openDrawer()));
+
+  expect(getDrawer(root)).toEqual({ width: DRAWER_WIDTH, progress: 1 });
+
+  act(() => ref.current!.dispatch(DrawerActions.closeDrawer()));
+
+  expect(getDrawer(root)).toEqual({
+    width: COLLAPSED_DRAWER_WIDTH,
+    progress: 0,
+  });
+
+  root.unmount();
+});
+
+it('renders a modal drawer which can be opened', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const root = render(<App ref={ref} drawerMode="modal" />);
+
+  expect(root.getByProps({ open: false }).type).toBe('Drawer');
+
+  act(() => ref.current!.dispatch(DrawerActions.openDrawer()));
+
+  expect(root.getByProps({ open: true }).type).toBe('Drawer');
+
+  root.unmount();
+});
+
+it('keeps the mode of the restored state until the prop changes', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const initialState = {
+    routes: [{ name: 'Home' }, { name: 'Settings' }],
+    drawerMode: 'collapsed',
+  };
+
+  const root = render(
+    <App ref={ref} drawerMode="permanent" initialState={initialState} />
+  );
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({ drawerMode: 'collapsed' })
+  );
+  expect(getDrawer(root).width).toBe(COLLAPSED_DRAWER_WIDTH);
+
+  root.update(<App ref={ref} drawerMode="modal" initialState={initialState} />);
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({ drawerMode: 'modal' })
+  );
+  expect(root.getByProps({ open: false }).type).toBe('Drawer');
+
+  root.unmount();
+});
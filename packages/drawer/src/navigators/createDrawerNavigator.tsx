@@ -8,6 +8,7 @@ import {
   DrawerNavigationState,
   DrawerRouterOptions,
   DrawerRouter,
+  DrawerActions,
 } from '@react-navigation/routers';
 
 import DrawerView from '../views/DrawerView';
@@ -23,6 +24,7 @@ type Props = DefaultNavigatorOptions<DrawerNavigationOptions> &
 
 function DrawerNavigator({
   initialRouteName,
+  drawerMode,
   children,
   screenOptions,
   ...rest
@@ -34,10 +36,28 @@ function DrawerNavigator({
     DrawerNavigationEventMap
   >(DrawerRouter, {
     initialRouteName,
+    drawerMode,
     children,
     screenOptions,
   });
 
+  const previousDrawerModeRef = React.useRef(drawerMode);
+
+  React.useEffect(() => {
+    const previousDrawerMode = previousDrawerModeRef.current;
+
+    previousDrawerModeRef.current = drawerMode;
+
+    // The mode usually depends on the screen size, so we need to update it when it changes
+    // We don't update it on mount, so that the mode in a restored state is kept until the prop changes
+    if (drawerMode !== undefined && drawerMode !== previousDrawerMode) {
+      navigation.dispatch({
+        ...DrawerActions.setDrawerMode(drawerMode),
+        target: state.key,
+      });
+    }
+  }, [drawerMode, navigation, state.key]);
+
   return (
     <DrawerView
       state={state}
@@ -7,7 +7,7 @@ import {
   Descriptor,
   NavigationHelpers,
 } from '@react-navigation/core';
-import { DrawerNavigationState } from '@react-navigation/routers';
+import { DrawerNavigationState, DrawerMode } from '@react-navigation/routers';
 import { PanGestureHandler } from 'react-native-gesture-handler';
 
 export type Scene = {
@@ -209,6 +209,13 @@ export type DrawerNavigationProp<
    * Open the drawer sidebar if closed, or close if opened.
    */
   toggleDrawer(): void;
+
+  /**
+   * Change how the drawer is displayed, e.g. when the screen size changes.
+   *
+   * @param mode Mode of the drawer: `modal`, `permanent` or `collapsed`.
+   */
+  setDrawerMode(mode: DrawerMode): void;
 };
 
 export type DrawerDescriptor = Descriptor<
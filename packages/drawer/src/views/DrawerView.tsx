@@ -5,7 +5,9 @@ import {
   I18nManager,
   Platform,
   ScaledSize,
+  View,
 } from 'react-native';
+import Animated from 'react-native-reanimated';
 // eslint-disable-next-line import/no-unresolved
 import { ScreenContainer } from 'react-native-screens';
 import { PanGestureHandler } from 'react-native-gesture-handler';
@@ -59,6 +61,8 @@ const getDefaultDrawerWidth = ({
   return Math.min(smallerAxisSize - appBarHeight, maxWidth);
 };
 
+const COLLAPSED_DRAWER_WIDTH = 72;
+
 /**
  * Component that renders the drawer.
  */
@@ -102,6 +106,10 @@ export default class DrawerView extends React.PureComponent<Props, State> {
 
   private drawerGestureRef = React.createRef<PanGestureHandler>();
 
+  // Progress of the drawer when it isn't animated, i.e. in `permanent` and `collapsed` modes
+  private openProgress = new Animated.Value<number>(1);
+  private closedProgress = new Animated.Value<number>(0);
+
   private handleDrawerOpen = () => {
     const { state, navigation } = this.props;
 
@@ -209,6 +217,43 @@ export default class DrawerView extends React.PureComponent<Props, State> {
 
     const { drawerWidth } = this.state;
 
+    if (state.drawerMode !== 'modal') {
+      // The drawer is always visible next to the content, so there are no gestures or overlay
+      // In collapsed mode, the drawer is narrow until it's opened
+      const isExpanded = state.drawerMode === 'permanent' || state.isDrawerOpen;
+
+      return (
+        <SafeAreaProviderCompat>
+          <DrawerGestureContext.Provider value={this.drawerGestureRef}>
+            <View
+              style={[
+                styles.main,
+                drawerPosition === 'right' && styles.reverse,
+              ]}
+            >
+              <View
+                style={[
+                  styles.drawer,
+                  { width: drawerWidth },
+                  drawerStyle,
+                  !isExpanded && { width: COLLAPSED_DRAWER_WIDTH },
+                ]}
+              >
+                {this.renderNavigationView({
+                  progress: isExpanded
+                    ? this.openProgress
+                    : this.closedProgress,
+                })}
+              </View>
+              <View style={[styles.content, sceneContainerStyle]}>
+                {this.renderContent()}
+              </View>
+            </View>
+          </DrawerGestureContext.Provider>
+        </SafeAreaProviderCompat>
+      );
+    }
+
     const activeKey = state.routes[state.index].key;
     const { gestureEnabled } = descriptors[activeKey].options;
 
@@ -241,6 +286,16 @@ export default class DrawerView extends React.PureComponent<Props, State> {
 }
 
 const styles = StyleSheet.create({
+  main: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  reverse: {
+    flexDirection: 'row-reverse',
+  },
+  drawer: {
+    overflow: 'hidden',
+  },
   content: {
     flex: 1,
   },
@@ -0,0 +1,40 @@
+import * as React from 'react';
+import { Text, TextProps, GestureResponderEvent } from 'react-native';
+import { NavigationAction } from '@react-navigation/core';
+import useLinkProps, { To } from './useLinkProps';
+
+type Props = {
+  to: To;
+  action?: NavigationAction;
+  target?: string;
+  onPress?: (e: GestureResponderEvent) => void;
+} & Omit<TextProps, 'onPress'> & {
+    children: React.ReactNode;
+  };
+
+/**
+ * Component to render a link to a screen.
+ * On the web, it renders an anchor tag with the `href` for the path.
+ *
+ * @param props.to Path (e.g. `/chat/42`) or route object (e.g. `{ screen: 'Chat', params: { id: 42 } }`) to navigate to.
+ * @param props.action Optional action to dispatch instead of navigating to `to`.
+ * @param props.onPress Callback which is called when the link is pressed, before navigating.
+ * @param props.children Child elements to render the content.
+ */
+export default function Link({ to, action, ...rest }: Props) {
+  const props = useLinkProps({ to, action });
+
+  const onPress = (e: GestureResponderEvent) => {
+    if (rest.onPress) {
+      rest.onPress(e);
+    }
+
+    props.onPress(e);
+  };
+
+  return React.createElement(Text, {
+    ...props,
+    ...rest,
+    onPress,
+  });
+}
@@ -0,0 +1,12 @@
+import * as React from 'react';
+import { LinkingOptions } from './types';
+
+/**
+ * Context which holds the linking options of the container.
+ * It's used by `Link` and `useLinkProps` to resolve paths.
+ */
+const LinkingContext = React.createContext<{
+  options: LinkingOptions | undefined;
+}>({ options: undefined });
+
+export default LinkingContext;
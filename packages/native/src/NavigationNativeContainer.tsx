@@ -5,6 +5,16 @@ import {
   NavigationContainerRef,
 } from '@react-navigation/core';
 import useBackButton from './useBackButton';
+import LinkingContext from './LinkingContext';
+import { LinkingOptions } from './types';
+
+type Props = NavigationContainerProps & {
+  /**
+   * Options for linking, which are used by `Link` and `useLinkProps` to resolve paths.
+   * Usually the same options that are passed to `useLinking`.
+   */
+  linking?: LinkingOptions;
+};
 
 /**
  * Container component which holds the navigation state
@@ -13,11 +23,12 @@ import useBackButton from './useBackButton';
  *
  * @param props.initialState Initial state object for the navigation tree.
  * @param props.onStateChange Callback which is called with the latest navigation state when it changes.
+ * @param props.linking Options for linking which are used by `Link` and `useLinkProps` to resolve paths.
  * @param props.children Child elements to render the content.
  * @param props.ref Ref object which refers to the navigation object containing helper methods.
  */
 const NavigationNativeContainer = React.forwardRef(function NativeContainer(
-  props: NavigationContainerProps,
+  { linking, ...rest }: Props,
   ref: React.Ref<NavigationContainerRef>
 ) {
   const refContainer = React.useRef<NavigationContainerRef>(null);
@@ -26,12 +37,16 @@ const NavigationNativeContainer = React.forwardRef(function NativeContainer(
 
   React.useImperativeHandle(ref, () => refContainer.current);
 
+  const linkingContext = React.useMemo(() => ({ options: linking }), [linking]);
+
   return (
-    <NavigationContainer
-      {...props}
-      ref={refContainer}
-      children={props.children}
-    />
+    <LinkingContext.Provider value={linkingContext}>
+      <NavigationContainer
+        {...rest}
+        ref={refContainer}
+        children={rest.children}
+      />
+    </LinkingContext.Provider>
   );
 });
 
@@ -0,0 +1,129 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+  CommonActions,
+} from '@react-navigation/core';
+import { StackRouter } from '@react-navigation/routers';
+import LinkingContext from '../LinkingContext';
+import Link from '../Link';
+
+jest.mock('react-native', () => ({ Platform: { OS: 'web' }, Text: 'Text' }));
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+
+const options = {
+  prefixes: [],
+  config: {
+    Home: '',
+    Chat: {
+      path: 'chat/:id',
+      parse: { id: Number },
+    },
+  },
+};
+
+const renderLink = (element: React.ReactElement) => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <LinkingContext.Provider value={{ options }}>
+      <NavigationContainer ref={ref}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">{() => element}</Stack.Screen>
+          <Stack.Screen name="Chat">{() => null}</Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    </LinkingContext.Provider>
+  );
+
+  return { ref, root, text: root.getByType('Text' as any) };
+};
+
+it('renders a link with href', () => {
+  const { root, text } = renderLink(
+    <Link to={{ screen: 'Chat', params: { id: 42 } }} target="_blank">
+      Chat
+    </Link>
+  );
+
+  expect(text.props).toEqual(
+    expect.objectContaining({
+      href: '/chat/42',
+      accessibilityRole: 'link',
+      target: '_blank',
+      children: 'Chat',
+    })
+  );
+
+  root.unmount();
+});
+
+it('calls onPress and navigates', () => {
+  const onPress = jest.fn();
+  const { ref, root, text } = renderLink(
+    <Link to="/chat/42" onPress={onPress}>
+      Chat
+    </Link>
+  );
+
+  const event = { preventDefault: jest.fn(), button: 0 };
+
+  act(() => text.props.onPress(event));
+
+  expect(onPress).toHaveBeenCalledWith(event);
+  expect(event.preventDefault).toHaveBeenCalled();
+  expect(ref.current!.getRootState().routes[1]).toEqual(
+    expect.objectContaining({ name: 'Chat', params: { id: 42 } })
+  );
+
+  root.unmount();
+});
+
+it("doesn't navigate when the link opens in another target", () => {
+  const { ref, root, text } = renderLink(
+    <Link to="/chat/42" target="_blank">
+      Chat
+    </Link>
+  );
+
+  const event = {
+    preventDefault: jest.fn(),
+    button: 0,
+    currentTarget: { target: '_blank' },
+  };
+
+  act(() => text.props.onPress(event));
+
+  expect(event.preventDefault).not.toHaveBeenCalled();
+  expect(ref.current!.getRootState().index).toBe(0);
+
+  root.unmount();
+});
+
+it('dispatches the action on press', () => {
+  const { ref, root, text } = renderLink(
+    <Link to="/chat/42" action={CommonActions.navigate('Chat', { id: 3 })}>
+      Chat
+    </Link>
+  );
+
+  expect(text.props.href).toBe('/chat/42');
+
+  act(() => text.props.onPress({ preventDefault: jest.fn(), button: 0 }));
+
+  expect(ref.current!.getRootState().routes[1]).toEqual(
+    expect.objectContaining({ name: 'Chat', params: { id: 3 } })
+  );
+
+  root.unmount();
+});
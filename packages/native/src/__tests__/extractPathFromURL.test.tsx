@@ -0,0 +1,82 @@
+import extractPathFromURL from '../extractPathFromURL';
+
+it('extracts the path after the prefix', () => {
+  expect(extractPathFromURL(['myapp://'], 'myapp://chat/42')).toBe('chat/42');
+  expect(
+    extractPathFromURL(['https://example.com'], 'https://example.com/chat/42')
+  ).toBe('/chat/42');
+  expect(
+    extractPathFromURL(
+      ['https://example.com'],
+      'https://example.com/chat?user=jane'
+    )
+  ).toBe('/chat?user=jane');
+  expect(
+    extractPathFromURL(['https://example.com'], 'https://example.com')
+  ).toBe('');
+});
+
+it('tries the prefixes in order', () => {
+  const prefixes = ['myapp://', 'https://example.com', 'https://example.org'];
+
+  expect(extractPathFromURL(prefixes, 'https://example.org/chat')).toBe(
+    '/chat'
+  );
+  expect(
+    extractPathFromURL(prefixes, 'https://example.net/chat')
+  ).toBeUndefined();
+});
+
+it('ignores a trailing slash in the prefix', () => {
+  expect(
+    extractPathFromURL(['https://example.com/'], 'https://example.com/chat')
+  ).toBe('/chat');
+  expect(
+    extractPathFromURL(['https://example.com/app/'], 'https://example.com/app')
+  ).toBe('');
+  expect(
+    extractPathFromURL(
+      ['https://example.com/app'],
+      'https://example.com/app/chat'
+    )
+  ).toBe('/chat');
+});
+
+it("doesn't match in the middle of a segment", () => {
+  expect(
+    extractPathFromURL(['https://example.com'], 'https://example.com.evil.io')
+  ).toBeUndefined();
+  expect(
+    extractPathFromURL(['https://example.com/app'], 'https://example.com/apple')
+  ).toBeUndefined();
+});
+
+it('normalizes the scheme and matches the host case-insensitively', () => {
+  expect(
+    extractPathFromURL(['https://example.com'], 'http://example.com/chat')
+  ).toBe('/chat');
+  expect(
+    extractPathFromURL(['http://example.com'], 'HTTPS://Example.COM/Chat')
+  ).toBe('/Chat');
+  expect(extractPathFromURL(['MyApp://'], 'myapp://chat')).toBe('chat');
+  expect(
+    extractPathFromURL(['https://example.com/app'], 'https://example.com/App')
+  ).toBeUndefined();
+});
+
+it('matches subdomains with a wildcard in the host', () => {
+  const prefixes = ['https://*.example.com'];
+
+  expect(extractPathFromURL(prefixes, 'https://app.example.com/chat')).toBe(
+    '/chat'
+  );
+  expect(
+    extractPathFromURL(prefixes, 'https://staging.app.example.com/chat')
+  ).toBe('/chat');
+  expect(extractPathFromURL(prefixes, 'https://example.com/chat')).toBe(
+    undefined
+  );
+  expect(
+    extractPathFromURL(prefixes, 'https://app.example.company/chat')
+  ).toBeUndefined();
+});
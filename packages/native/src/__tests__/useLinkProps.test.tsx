@@ -0,0 +1,219 @@
+import * as React from 'react';
+import { Platform } from 'react-native';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+  CommonActions,
+} from '@react-navigation/core';
+import { StackRouter } from '@react-navigation/routers';
+import LinkingContext from '../LinkingContext';
+import useLinkProps from '../useLinkProps';
+import { LinkingOptions } from '../types';
+
+jest.mock('react-native', () => ({ Platform: { OS: 'web' } }));
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+
+const options: LinkingOptions = {
+  prefixes: [],
+  config: {
+    Home: '',
+    Chat: {
+      path: 'chat/:id',
+      parse: { id: Number },
+    },
+    Root: {
+      screens: {
+        Settings: {
+          path: 'settings',
+          screens: {
+            Profile: 'profile',
+          },
+        },
+      },
+    },
+  },
+};
+
+const renderLinkProps = (props: Parameters<typeof useLinkProps>[0]) => {
+  let result: ReturnType<typeof useLinkProps> | undefined;
+
+  const Home = () => {
+    result = useLinkProps(props);
+
+    return null;
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <LinkingContext.Provider value={{ options }}>
+      <NavigationContainer ref={ref}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home" component={Home} />
+          <Stack.Screen name="Chat">{() => null}</Stack.Screen>
+          <Stack.Screen name="Root">
+            {() => (
+              <Stack.Navigator>
+                <Stack.Screen name="Settings">
+                  {() => (
+                    <Stack.Navigator>
+                      <Stack.Screen name="Account">{() => null}</Stack.Screen>
+                      <Stack.Screen name="Profile">{() => null}</Stack.Screen>
+                    </Stack.Navigator>
+                  )}
+                </Stack.Screen>
+              </Stack.Navigator>
+            )}
+          </Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    </LinkingContext.Provider>
+  );
+
+  return { result: result!, ref, root };
+};
+
+const createPressEvent = (event: object = {}) => ({
+  preventDefault: jest.fn(),
+  button: 0,
+  ...event,
+});
+
+afterEach(() => {
+  Platform.OS = 'web';
+});
+
+it('returns href for the path on the web', () => {
+  const { result, root } = renderLinkProps({ to: '/chat/42' });
+
+  expect(result.href).toBe('/chat/42');
+  expect(result.accessibilityRole).toBe('link');
+
+  root.unmount();
+});
+
+it('returns href for screens in nested navigators on the web', () => {
+  const { result, root } = renderLinkProps({ to: { screen: 'Profile' } });
+
+  expect(result.href).toBe('/settings/profile');
+
+  root.unmount();
+
+  const chat = renderLinkProps({ to: { screen: 'Chat', params: { id: 42 } } });
+
+  expect(chat.result.href).toBe('/chat/42');
+
+  chat.root.unmount();
+});
+
+it("doesn't return href on native", () => {
+  Platform.OS = 'ios';
+
+  const { result, root } = renderLinkProps({ to: '/chat/42' });
+
+  expect(result.href).toBe(undefined);
+  expect(result.accessibilityRole).toBe('link');
+
+  root.unmount();
+});
+
+it('navigates to the route on press', () => {
+  const { result, ref, root } = renderLinkProps({
+    to: { screen: 'Chat', params: { id: 42 } },
+  });
+
+  const event = createPressEvent();
+
+  act(() => result.onPress(event as any));
+
+  expect(event.preventDefault).toHaveBeenCalled();
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'Home' }),
+        expect.objectContaining({ name: 'Chat', params: { id: 42 } }),
+      ],
+    })
+  );
+
+  root.unmount();
+});
+
+it('navigates to screens in nested navigators on press', () => {
+  const { result, ref, root } = renderLinkProps({
+    to: { screen: 'Profile', params: { tab: 'posts' } },
+  });
+
+  expect(result.href).toBe('/settings/profile?tab=posts');
+
+  act(() => result.onPress(createPressEvent() as any));
+
+  const state = ref.current!.getRootState();
+  const rootRoute = state.routes[state.index];
+  const settings = rootRoute.state!.routes[rootRoute.state!.index!];
+  const profile = settings.state!.routes[settings.state!.index!];
+
+  expect(rootRoute.name).toBe('Root');
+  expect(settings.name).toBe('Settings');
+  expect(profile).toEqual(
+    expect.objectContaining({ name: 'Profile', params: { tab: 'posts' } })
+  );
+
+  root.unmount();
+});
+
+it('leaves modifier clicks and other targets to the browser', () => {
+  const { result, ref, root } = renderLinkProps({ to: '/chat/42' });
+
+  const events = [
+    createPressEvent({ metaKey: true }),
+    createPressEvent({ ctrlKey: true }),
+    createPressEvent({ shiftKey: true }),
+    createPressEvent({ altKey: true }),
+    createPressEvent({ button: 1 }),
+    createPressEvent({ currentTarget: { target: '_blank' } }),
+    createPressEvent({ defaultPrevented: true }),
+  ];
+
+  events.forEach(event => act(() => result.onPress(event as any)));
+
+  events.forEach(event => expect(event.preventDefault).not.toHaveBeenCalled());
+  expect(ref.current!.getRootState().index).toBe(0);
+
+  const event = createPressEvent({ currentTarget: { target: '_self' } });
+
+  act(() => result.onPress(event as any));
+
+  expect(event.preventDefault).toHaveBeenCalled();
+  expect(ref.current!.getRootState().index).toBe(1);
+
+  root.unmount();
+});
+
+it('dispatches the action instead of navigating to the path', () => {
+  const { result, ref, root } = renderLinkProps({
+    to: '/chat/42',
+    action: CommonActions.navigate('Chat', { id: 7 }),
+  });
+
+  expect(result.href).toBe('/chat/42');
+
+  act(() => result.onPress(createPressEvent() as any));
+
+  expect(ref.current!.getRootState().routes[1]).toEqual(
+    expect.objectContaining({ name: 'Chat', params: { id: 7 } })
+  );
+
+  root.unmount();
+});
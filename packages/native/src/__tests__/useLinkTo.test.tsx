@@ -0,0 +1,88 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+} from '@react-navigation/core';
+import { StackRouter } from '@react-navigation/routers';
+import LinkingContext from '../LinkingContext';
+import useLinkTo from '../useLinkTo';
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+
+const options = {
+  prefixes: [],
+  config: {
+    Home: {
+      path: 'home',
+      screens: {
+        Feed: 'feed',
+        Chat: {
+          path: 'chat/:id',
+          parse: { id: Number },
+        },
+      },
+    },
+  },
+};
+
+it('navigates to the screen for the path', () => {
+  let linkTo: ReturnType<typeof useLinkTo> | undefined;
+
+  const Feed = () => {
+    linkTo = useLinkTo();
+
+    return null;
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <LinkingContext.Provider value={{ options }}>
+      <NavigationContainer ref={ref}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">
+            {() => (
+              <Stack.Navigator>
+                <Stack.Screen name="Feed" component={Feed} />
+                <Stack.Screen name="Chat">{() => null}</Stack.Screen>
+              </Stack.Navigator>
+            )}
+          </Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    </LinkingContext.Provider>
+  );
+
+  act(() => linkTo!('/home/chat/42'));
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 0,
+      routes: [
+        expect.objectContaining({
+          name: 'Home',
+          state: expect.objectContaining({
+            index: 1,
+            routes: [
+              expect.objectContaining({ name: 'Feed' }),
+              expect.objectContaining({ name: 'Chat', params: { id: 42 } }),
+            ],
+          }),
+        }),
+      ],
+    })
+  );
+
+  expect(() => linkTo!('home/feed')).toThrow(
+    "The path must start with '/' (home/feed)."
+  );
+});
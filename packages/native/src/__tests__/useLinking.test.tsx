@@ -0,0 +1,171 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+} from '@react-navigation/core';
+import { StackRouter } from '@react-navigation/routers';
+import useLinking from '../useLinking';
+import { LinkingOptions } from '../types';
+
+jest.mock('react-native', () => ({
+  Linking: {
+    getInitialURL: () => Promise.resolve(null),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+  },
+}));
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+
+const config = {
+  Home: '',
+  Chat: {
+    path: 'chat/:id',
+    parse: { id: Number },
+  },
+};
+
+const createSource = () => {
+  const listeners: Array<(url: string) => void> = [];
+
+  return {
+    listeners,
+    subscribe: (listener: (url: string) => void) => {
+      listeners.push(listener);
+
+      return () => {
+        listeners.splice(listeners.indexOf(listener), 1);
+      };
+    },
+    emit: (url: string) => listeners.forEach(listener => listener(url)),
+  };
+};
+
+const App = React.forwardRef(
+  (
+    { options }: { options: LinkingOptions },
+    ref: React.Ref<NavigationContainerRef>
+  ) => {
+    const containerRef = React.useRef<NavigationContainerRef>(null);
+
+    useLinking(containerRef, options);
+
+    React.useImperativeHandle(ref, () => containerRef.current);
+
+    return (
+      <NavigationContainer ref={containerRef}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">{() => null}</Stack.Screen>
+          <Stack.Screen name="Chat">{() => null}</Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    );
+  }
+);
+
+it('gets the initial state from a custom source', async () => {
+  let getInitialState: any;
+
+  const Test = () => {
+    const ref = React.useRef<NavigationContainerRef>(null);
+
+    getInitialState = useLinking(ref, {
+      prefixes: ['myapp://'],
+      config,
+      getInitialURL: () => Promise.resolve('myapp://chat/42'),
+    }).getInitialState;
+
+    return null;
+  };
+
+  render(<Test />);
+
+  expect(await getInitialState()).toEqual({
+    routes: [{ name: 'Chat', params: { id: 42 } }],
+  });
+});
+
+it('navigates for links from a custom source', () => {
+  const source = createSource();
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const { unmount } = render(
+    <App
+      ref={ref}
+      options={{
+        prefixes: ['myapp://'],
+        config,
+        filter: url => !url.includes('oauth'),
+        subscribe: source.subscribe,
+      }}
+    />
+  );
+
+  expect(source.listeners.length).toBe(1);
+
+  act(() => source.emit('myapp://chat/42'));
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'Home' }),
+        expect.objectContaining({ name: 'Chat', params: { id: 42 } }),
+      ],
+    })
+  );
+
+  act(() => source.emit('myapp://chat/42?oauth=1'));
+  act(() => source.emit('otherapp://chat/43'));
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'Home' }),
+        expect.objectContaining({ name: 'Chat', params: { id: 42 } }),
+      ],
+    })
+  );
+
+  unmount();
+
+  expect(source.listeners.length).toBe(0);
+});
+
+it('resets the state for links if specified', () => {
+  const source = createSource();
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const { unmount } = render(
+    <App
+      ref={ref}
+      options={{
+        prefixes: ['myapp://'],
+        config,
+        reset: true,
+        subscribe: source.subscribe,
+      }}
+    />
+  );
+
+  act(() => source.emit('myapp://chat/42'));
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 0,
+      routes: [expect.objectContaining({ name: 'Chat', params: { id: 42 } })],
+    })
+  );
+
+  unmount();
+});
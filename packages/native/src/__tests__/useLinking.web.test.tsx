@@ -0,0 +1,227 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+} from '@react-navigation/core';
+import { StackRouter } from '@react-navigation/routers';
+import useLinking from '../useLinking.web';
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+
+const config = {
+  Home: '',
+  Profile: 'profile/:id',
+  Settings: 'settings',
+};
+
+// The browser changes the location asynchronously when going back or forward
+// So we wait for the event, then flush the effects which emit the state change
+const waitForPopState = async () => {
+  // React 16.8 doesn't support async `act`, so the update in the event listener can't be wrapped
+  const error = console.error;
+
+  console.error = (...args: any[]) =>
+    /not wrapped in act/.test(args[0]) ? undefined : error(...args);
+
+  await new Promise(resolve =>
+    window.addEventListener(
+      'popstate',
+      () =>
+        setTimeout(() => {
+          act(() => undefined);
+          resolve();
+        }, 0),
+      { once: true }
+    )
+  );
+
+  console.error = error;
+};
+
+const App = React.forwardRef(
+  (
+    { initialState }: { initialState?: any },
+    ref: React.Ref<NavigationContainerRef>
+  ) => {
+    const containerRef = React.useRef<NavigationContainerRef>(null);
+
+    useLinking(containerRef, { prefixes: [], config });
+
+    React.useImperativeHandle(ref, () => containerRef.current);
+
+    return (
+      <NavigationContainer ref={containerRef} initialState={initialState}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">{() => null}</Stack.Screen>
+          <Stack.Screen name="Profile">{() => null}</Stack.Screen>
+          <Stack.Screen name="Settings">{() => null}</Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    );
+  }
+);
+
+beforeEach(() => {
+  window.history.replaceState(null, '', '/');
+});
+
+it('gets the initial state from the location', async () => {
+  window.history.replaceState(null, '', '/profile/42');
+
+  let getInitialState: any;
+
+  const Test = () => {
+    const ref = React.useRef<NavigationContainerRef>(null);
+
+    getInitialState = useLinking(ref, { prefixes: [], config }).getInitialState;
+
+    return null;
+  };
+
+  const { unmount } = render(<Test />);
+
+  expect(await getInitialState()).toEqual({
+    routes: [{ name: 'Profile', params: { id: '42' } }],
+  });
+
+  unmount();
+});
+
+it('pushes and replaces history entries based on the stack length', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const { unmount } = render(<App ref={ref} />);
+
+  const length = window.history.length;
+
+  expect(window.location.pathname).toBe('/');
+
+  act(() => ref.current!.navigate('Profile', { id: 42 }));
+
+  expect(window.location.pathname).toBe('/profile/42');
+  expect(window.history.length).toBe(length + 1);
+
+  act(() => ref.current!.setParams({ id: 43 }));
+
+  expect(window.location.pathname).toBe('/profile/43');
+  expect(window.history.length).toBe(length + 1);
+
+  act(() => ref.current!.navigate('Settings'));
+
+  expect(window.location.pathname).toBe('/settings');
+  expect(window.history.length).toBe(length + 2);
+
+  act(() => ref.current!.goBack());
+
+  expect(window.location.pathname).toBe('/profile/43');
+  expect(window.history.length).toBe(length + 2);
+
+  unmount();
+});
+
+it('goes back or resets the state when the history changes', async () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const { unmount } = render(<App ref={ref} />);
+
+  act(() => ref.current!.navigate('Profile', { id: 42 }));
+
+  expect(window.location.pathname).toBe('/profile/42');
+
+  window.history.back();
+
+  await waitForPopState();
+
+  expect(window.location.pathname).toBe('/');
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 0,
+      routes: [expect.objectContaining({ name: 'Home' })],
+    })
+  );
+
+  window.history.forward();
+
+  await waitForPopState();
+
+  expect(window.location.pathname).toBe('/profile/42');
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 0,
+      routes: [
+        expect.objectContaining({ name: 'Profile', params: { id: '42' } }),
+      ],
+    })
+  );
+
+  unmount();
+});
+
+it("doesn't treat the next state change as popping if going back is prevented", async () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const ProfileScreen = ({ navigation }: any) => {
+    React.useEffect(
+      () =>
+        navigation.addListener('beforeRemove', (e: any) => e.preventDefault()),
+      [navigation]
+    );
+
+    return null;
+  };
+
+  const App = () => {
+    useLinking(ref, { prefixes: [], config });
+
+    return (
+      <NavigationContainer ref={ref}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">{() => null}</Stack.Screen>
+          <Stack.Screen name="Profile" component={ProfileScreen} />
+          <Stack.Screen name="Settings">{() => null}</Stack.Screen>
+        </Stack.Navigator>
+      </NavigationContainer>
+    );
+  };
+
+  const { unmount } = render(<App />);
+
+  act(() => ref.current!.navigate('Profile', { id: 42 }));
+
+  expect(window.history.state).toEqual({ index: 1 });
+
+  window.history.back();
+
+  await waitForPopState();
+
+  expect(ref.current!.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'Home' }),
+        expect.objectContaining({ name: 'Profile' }),
+      ],
+    })
+  );
+
+  // Navigating after the prevented action adds a new history entry instead of replacing the current one
+  act(() => ref.current!.navigate('Settings'));
+
+  expect(window.location.pathname).toBe('/settings');
+  expect(window.history.state).toEqual({ index: 1 });
+
+  unmount();
+});
@@ -0,0 +1,113 @@
+import * as React from 'react';
+import { render, act } from 'react-native-testing-library';
+import {
+  NavigationContainer,
+  NavigationContainerRef,
+  createNavigatorFactory,
+  useNavigationBuilder,
+} from '@react-navigation/core';
+import { StackRouter, TabRouter } from '@react-navigation/routers';
+import useScrollToTop from '../useScrollToTop';
+
+const StackNavigator = (props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+let tabNavigation: any;
+
+const TabNavigator = (props: any) => {
+  const { state, descriptors, navigation } = useNavigationBuilder(
+    TabRouter,
+    props
+  );
+
+  tabNavigation = navigation;
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const Stack = createNavigatorFactory(StackNavigator)();
+const Tab = createNavigatorFactory(TabNavigator)();
+
+beforeEach(() => {
+  // Run the callbacks right away, since the listeners don't call `preventDefault` in these tests
+  // @ts-ignore
+  global.requestAnimationFrame = (callback: () => void) => callback();
+});
+
+afterEach(() => {
+  // @ts-ignore
+  delete global.requestAnimationFrame;
+  tabNavigation = undefined;
+});
+
+it('scrolls to top when the focused tab is pressed with parallel stacks', () => {
+  const scrollToTop = jest.fn();
+
+  const Feed = () => {
+    const ref = React.useRef({ scrollToTop });
+
+    useScrollToTop(ref);
+
+    return null;
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const { unmount } = render(
+    <NavigationContainer ref={ref}>
+      <Tab.Navigator>
+        <Tab.Screen name="Home">
+          {() => (
+            <Stack.Navigator>
+              <Stack.Screen name="Feed" component={Feed} />
+              <Stack.Screen name="Post">{() => null}</Stack.Screen>
+            </Stack.Navigator>
+          )}
+        </Tab.Screen>
+        <Tab.Screen name="Settings">{() => null}</Tab.Screen>
+      </Tab.Navigator>
+    </NavigationContainer>
+  );
+
+  const getHomeKey = () => ref.current!.getRootState().routes[0].key;
+
+  // With parallel stacks, tapping the focused tab doesn't reset the stack
+  act(() => {
+    tabNavigation.emit({
+      type: 'tabPress',
+      target: getHomeKey(),
+      data: { popToTop: false },
+    });
+  });
+
+  expect(scrollToTop).toBeCalledTimes(1);
+
+  // Long press without parallel stacks doesn't reset the stack, so it doesn't scroll either
+  act(() => {
+    tabNavigation.emit({
+      type: 'tabLongPress',
+      target: getHomeKey(),
+      data: { popToTop: false },
+    });
+  });
+
+  expect(scrollToTop).toBeCalledTimes(1);
+
+  act(() => ref.current!.navigate('Post'));
+
+  // The stack isn't at the root, so tapping the tab keeps the stack as it was left
+  act(() => {
+    tabNavigation.emit({
+      type: 'tabPress',
+      target: getHomeKey(),
+      data: { popToTop: false },
+    });
+  });
+
+  expect(scrollToTop).toBeCalledTimes(1);
+
+  unmount();
+});
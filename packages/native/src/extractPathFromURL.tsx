@@ -0,0 +1,77 @@
+const escapeRegExp = (value: string) =>
+  value.replace(/[|\\{}()[\]^$+*?.-]/g, '\\$&');
+
+/**
+ * Create a regex which matches the scheme and the host of a prefix.
+ * The scheme and the host are case-insensitive, `http` and `https` are treated the same,
+ * and a `*` in the host matches any subdomain, e.g. `https://*.example.com`.
+ */
+const createOriginMatcher = (scheme: string, host: string) =>
+  new RegExp(
+    `^${
+      /^https?:\/\/$/i.test(scheme) ? 'https?://' : escapeRegExp(scheme)
+    }${host
+      .split('*')
+      .map(escapeRegExp)
+      .join('[^/?#]+')}`,
+    'i'
+  );
+
+/**
+ * Check whether the remaining part of the URL starts at a boundary, i.e. not in the middle of a segment.
+ */
+const isBoundary = (rest: string) => rest === '' || /^[/?#]/.test(rest);
+
+/**
+ * Utility to strip the matching prefix from a URL to get the path for `getStateFromPath`.
+ *
+ * Prefixes can contain a `*` in the host to match any subdomain, e.g. `https://*.example.com`.
+ * The scheme and host are matched case-insensitively, `http` and `https` are treated the same,
+ * and a trailing slash in the prefix is ignored.
+ *
+ * Example:
+ * ```js
+ * extractPathFromURL(['https://*.example.com'], 'http://app.Example.com/chat/42')
+ * // '/chat/42'
+ * ```
+ *
+ * @param prefixes List of prefixes to try.
+ * @param url URL to extract the path from.
+ * @returns The path without the prefix, or `undefined` if none of the prefixes matched.
+ */
+export default function extractPathFromURL(
+  prefixes: string[],
+  url: string
+): string | undefined {
+  for (const prefix of prefixes) {
+    const [, scheme = '', host = '', path = ''] =
+      prefix.match(/^([a-z][a-z\d+.-]*:\/\/)?([^/?#]*)(.*)$/i) || [];
+
+    const match = url.match(createOriginMatcher(scheme, host));
+
+    if (!match) {
+      continue;
+    }
+
+    let rest = url.slice(match[0].length);
+
+    // Without a host, e.g. `myapp://`, the path starts right after the scheme
+    if (host !== '' && !isBoundary(rest)) {
+      continue;
+    }
+
+    const base = path.replace(/\/+$/, '');
+
+    if (base !== '') {
+      if (!rest.startsWith(base) || !isBoundary(rest.slice(base.length))) {
+        continue;
+      }
+
+      rest = rest.slice(base.length);
+    }
+
+    return rest;
+  }
+
+  return undefined;
+}
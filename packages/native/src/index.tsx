@@ -1,5 +1,12 @@
 export { default as NavigationNativeContainer } from './NavigationNativeContainer';
 
+export { default as Link } from './Link';
+export { default as LinkingContext } from './LinkingContext';
+
 export { default as useBackButton } from './useBackButton';
 export { default as useLinking } from './useLinking';
+export { default as useLinkProps } from './useLinkProps';
+export { default as useLinkTo } from './useLinkTo';
 export { default as useScrollToTop } from './useScrollToTop';
+
+export * from './types';
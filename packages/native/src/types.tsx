@@ -0,0 +1,97 @@
+import {
+  NavigationAction,
+  NavigationState,
+  PartialState,
+  PathConfigMap,
+  ParamListBase,
+} from '@react-navigation/core';
+
+export type LinkingOptions<ParamList extends ParamListBase = ParamListBase> = {
+  /**
+   * The prefixes are stripped from the URL before parsing them.
+   * Usually they are the `scheme` + `host` (e.g. `myapp://chat?user=jane`)
+   *
+   * The host can contain a `*` to match any subdomain (e.g. `https://*.example.com`).
+   * The scheme and host are matched case-insensitively, and `http` and `https` are treated the same.
+   *
+   * The prefixes aren't used on the web, where the path is always read from the current location.
+   */
+  prefixes: string[];
+  /**
+   * Callback to decide whether a URL should be handled.
+   * Return `false` to let URLs such as OAuth redirects pass through without navigating.
+   */
+  filter?: (url: string) => boolean;
+  /**
+   * Custom function to get the URL which was used to open the app.
+   * Defaults to `Linking.getInitialURL` from React Native.
+   */
+  getInitialURL?: () => Promise<string | null | undefined>;
+  /**
+   * Custom function to subscribe to incoming links, e.g. from push notifications or a QR code scanner.
+   * It receives a listener to call with the URL, and can return a function to unsubscribe.
+   * Defaults to listening to the `url` event of `Linking` from React Native.
+   *
+   * Example:
+   * ```js
+   * subscribe(listener) {
+   *   const subscription = Notifications.addListener(({ data }) => listener(data.url));
+   *
+   *   return () => subscription.remove();
+   * }
+   * ```
+   */
+  subscribe?: (
+    listener: (url: string) => void
+  ) => undefined | void | (() => void);
+  /**
+   * Config to fine-tune how to parse the path and how to convert the state to a path.
+   * The config can be nested to mirror the navigators, with `screens` containing the config for the nested navigator.
+   * Pass the param list of the root navigator as the type parameter to check the route names and params in the config.
+   *
+   * Example:
+   * ```js
+   * {
+   *   Home: {
+   *     path: 'home',
+   *     screens: {
+   *       Chat: {
+   *         path: 'chat/:author/:id',
+   *         parse: { id: Number }
+   *       }
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  config?: PathConfigMap<ParamList>;
+  /**
+   * Custom function to parse the URL object to a valid navigation state (advanced).
+   */
+  getStateFromPath?: (
+    path: string,
+    options?: PathConfigMap<ParamList>
+  ) => PartialState<NavigationState> | undefined;
+  /**
+   * Custom function to convert the state object to a valid URL (advanced).
+   * It's used to get the `href` for links on the web.
+   */
+  getPathFromState?: (
+    state: NavigationState | Omit<PartialState<NavigationState>, 'stale'>,
+    options?: PathConfigMap<ParamList>
+  ) => string;
+  /**
+   * Custom function to convert the parsed state to an action which is dispatched for incoming links (advanced).
+   * By default, the state is converted to a `navigate` action for the focused screen,
+   * with the screens in nested navigators specified with the `screen` and `params` keys.
+   */
+  getActionFromState?: (
+    state: PartialState<NavigationState>
+  ) => NavigationAction | undefined;
+  /**
+   * Whether to reset the whole navigation state for incoming links instead of navigating in the existing tree.
+   * Resetting throws away the navigation history and remounts all the screens.
+   * Defaults to `false`.
+   */
+  reset?: boolean;
+};
@@ -0,0 +1,189 @@
+import * as React from 'react';
+import { Platform, GestureResponderEvent } from 'react-native';
+import {
+  getActionFromState as getActionFromStateDefault,
+  getPathFromState as getPathFromStateDefault,
+  useNavigation,
+  NavigationAction,
+  NavigationState,
+  PartialState,
+  PathConfigMap,
+} from '@react-navigation/core';
+import LinkingContext from './LinkingContext';
+import useLinkTo, { getRootNavigation } from './useLinkTo';
+
+export type To =
+  | string
+  | {
+      /**
+       * Name of the screen to navigate to.
+       */
+      screen: string;
+      /**
+       * Params for the screen.
+       */
+      params?: object;
+    };
+
+type Props = {
+  /**
+   * Path (e.g. `/chat/42`) or route object (e.g. `{ screen: 'Chat', params: { id: 42 } }`) to navigate to.
+   */
+  to: To;
+  /**
+   * Optional action to dispatch instead of navigating to the screen that `to` resolves to.
+   * `to` is still used for the `href` on the web.
+   */
+  action?: NavigationAction;
+};
+
+type WebPressEvent = GestureResponderEvent & {
+  defaultPrevented?: boolean;
+  button?: number;
+  metaKey?: boolean;
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+};
+
+/**
+ * Check whether the browser should handle the press, e.g. to open the link in a new tab.
+ */
+const shouldHandleInBrowser = (e: WebPressEvent) => {
+  // On the web, the current target is the anchor element
+  // @ts-ignore
+  const target: string | undefined = e.currentTarget && e.currentTarget.target;
+
+  return (
+    e.defaultPrevented === true ||
+    (e.button !== undefined && e.button !== 0) ||
+    e.metaKey === true ||
+    e.altKey === true ||
+    e.ctrlKey === true ||
+    e.shiftKey === true ||
+    (target !== undefined && target !== '' && target !== '_self')
+  );
+};
+
+/**
+ * Find the names of the screens leading to a screen in the linking config, e.g. `['Root', 'Settings', 'Profile']`.
+ * Screens at a shallower level take precedence over nested ones with the same name.
+ */
+const getScreenChain = (
+  name: string,
+  configs: PathConfigMap | undefined
+): string[] | undefined => {
+  if (configs === undefined) {
+    return undefined;
+  }
+
+  if (name in configs) {
+    return [name];
+  }
+
+  let chain: string[] | undefined;
+
+  Object.keys(configs).some(key => {
+    const config = configs[key];
+    const nested =
+      config !== undefined && typeof config !== 'string'
+        ? getScreenChain(name, config.screens)
+        : undefined;
+
+    if (nested) {
+      chain = [key, ...nested];
+    }
+
+    return chain !== undefined;
+  });
+
+  return chain;
+};
+
+/**
+ * Build the state for a route object, with the screens of the navigators containing it if they're in the config.
+ */
+const getStateForRoute = (
+  { screen, params }: { screen: string; params?: object },
+  configs: PathConfigMap | undefined
+) => {
+  const chain = getScreenChain(screen, configs) || [screen];
+
+  return chain.reduceRight<PartialState<NavigationState> | undefined>(
+    (state, name, i) => ({
+      routes: [i === chain.length - 1 ? { name, params } : { name, state }],
+    }),
+    undefined
+  ) as PartialState<NavigationState>;
+};
+
+/**
+ * Hook to get props for an anchor tag so it can work with in page navigation.
+ * On the web, the `href` is the path for `to`, and modifier clicks are left to the browser.
+ *
+ * @param props.to Path or route object to navigate to.
+ * @param props.action Optional action to dispatch instead of navigating to `to`.
+ * @returns Props to spread on a component, e.g. `Text`.
+ */
+export default function useLinkProps({ to, action }: Props) {
+  const navigation = useNavigation();
+  const linking = React.useContext(LinkingContext);
+  const linkTo = useLinkTo();
+
+  const onPress = (e?: WebPressEvent) => {
+    if (Platform.OS === 'web' && e) {
+      if (shouldHandleInBrowser(e)) {
+        return;
+      }
+
+      e.preventDefault();
+    }
+
+    if (action) {
+      navigation.dispatch(action);
+    } else if (typeof to === 'string') {
+      linkTo(to);
+    } else {
+      // Navigate to the same state as the `href`, so that screens in nested navigators are found
+      const { options } = linking;
+      const getActionFromState =
+        options && options.getActionFromState
+          ? options.getActionFromState
+          : getActionFromStateDefault;
+
+      const root = getRootNavigation(navigation);
+      const state = getStateForRoute(to, options && options.config);
+      const action = getActionFromState(state);
+
+      if (action !== undefined) {
+        root.dispatch(action);
+      } else {
+        root.reset(state);
+      }
+    }
+  };
+
+  let href: string | undefined;
+
+  if (Platform.OS === 'web') {
+    const { options } = linking;
+    const getPathFromState =
+      options && options.getPathFromState
+        ? options.getPathFromState
+        : getPathFromStateDefault;
+
+    href =
+      typeof to === 'string'
+        ? to
+        : getPathFromState(
+            getStateForRoute(to, options && options.config),
+            options && options.config
+          );
+  }
+
+  return {
+    href,
+    accessibilityRole: 'link' as const,
+    onPress,
+  };
+}
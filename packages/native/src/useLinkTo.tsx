@@ -0,0 +1,75 @@
+import * as React from 'react';
+import {
+  getStateFromPath as getStateFromPathDefault,
+  getActionFromState as getActionFromStateDefault,
+  useNavigation,
+  NavigationProp,
+  ParamListBase,
+} from '@react-navigation/core';
+import LinkingContext from './LinkingContext';
+
+/**
+ * Get the navigation object of the root navigator, which can handle actions for any screen in the tree.
+ */
+export const getRootNavigation = (
+  navigation: NavigationProp<ParamListBase>
+) => {
+  let current = navigation;
+  let parent = current.dangerouslyGetParent();
+
+  while (parent) {
+    current = parent;
+    parent = current.dangerouslyGetParent();
+  }
+
+  return current;
+};
+
+/**
+ * Hook which returns a function to navigate to a path, e.g. `/chat/42`.
+ * The path is resolved with the linking options passed to the container.
+ *
+ * @returns Function which accepts a path and navigates to the screen it resolves to.
+ */
+export default function useLinkTo() {
+  const navigation = useNavigation();
+  const linking = React.useContext(LinkingContext);
+
+  const linkTo = React.useCallback(
+    (path: string) => {
+      if (!path.startsWith('/')) {
+        throw new Error(`The path must start with '/' (${path}).`);
+      }
+
+      const { options } = linking;
+      const getStateFromPath =
+        options && options.getStateFromPath
+          ? options.getStateFromPath
+          : getStateFromPathDefault;
+      const getActionFromState =
+        options && options.getActionFromState
+          ? options.getActionFromState
+          : getActionFromStateDefault;
+
+      const state = getStateFromPath(path, options && options.config);
+
+      if (state === undefined) {
+        throw new Error(
+          `Failed to parse the path '${path}' to a navigation state.`
+        );
+      }
+
+      const root = getRootNavigation(navigation);
+      const action = getActionFromState(state);
+
+      if (action !== undefined) {
+        root.dispatch(action);
+      } else {
+        root.reset(state);
+      }
+    },
+    [linking, navigation]
+  );
+
+  return linkTo;
+}
@@ -2,102 +2,114 @@ import * as React from 'react';
 import { Linking } from 'react-native';
 import {
   getStateFromPath as getStateFromPathDefault,
+  getActionFromState as getActionFromStateDefault,
   NavigationContainerRef,
-  NavigationState,
-  PartialState,
+  ParamListBase,
 } from '@react-navigation/core';
+import extractPathFromURL from './extractPathFromURL';
+import { LinkingOptions } from './types';
 
-type Config = {
-  [routeName: string]:
-    | string
-    | { path: string; parse?: Record<string, (value: string) => any> };
-};
+const getInitialURLDefault = () => Linking.getInitialURL();
+
+const subscribeDefault = (listener: (url: string) => void) => {
+  const callback = ({ url }: { url: string }) => listener(url);
 
-type Options = {
-  /**
-   * The prefixes are stripped from the URL before parsing them.
-   * Usually they are the `scheme` + `host` (e.g. `myapp://chat?user=jane`)
-   */
-  prefixes: string[];
-  /**
-   * Config to fine-tune how to parse the path.
-   *
-   * Example:
-   * ```js
-   * {
-   *   Chat: {
-   *     path: 'chat/:author/:id',
-   *     parse: { id: Number }
-   *   }
-   * }
-   * ```
-   */
-  config?: Config;
-  /**
-   * Custom function to parse the URL object to a valid navigation state (advanced).
-   */
-  getStateFromPath?: (
-    path: string,
-    options?: Config
-  ) => PartialState<NavigationState> | undefined;
+  Linking.addEventListener('url', callback);
+
+  return () => Linking.removeEventListener('url', callback);
 };
 
-export default function useLinking(
+export default function useLinking<
+  ParamList extends ParamListBase = ParamListBase
+>(
   ref: React.RefObject<NavigationContainerRef>,
-  { prefixes, config, getStateFromPath = getStateFromPathDefault }: Options
+  {
+    prefixes,
+    filter,
+    config,
+    getStateFromPath = getStateFromPathDefault,
+    getActionFromState = getActionFromStateDefault,
+    reset = false,
+    getInitialURL = getInitialURLDefault,
+    subscribe = subscribeDefault,
+  }: LinkingOptions<ParamList>
 ) {
   // We store these options in ref to avoid re-creating getInitialState and re-subscribing listeners
   // This lets user avoid wrapping the items in `React.useCallback` or `React.useMemo`
   // Not re-creating `getInitialState` is important coz it makes it easier for the user to use in an effect
   const prefixesRef = React.useRef(prefixes);
+  const filterRef = React.useRef(filter);
   const configRef = React.useRef(config);
   const getStateFromPathRef = React.useRef(getStateFromPath);
+  const getActionFromStateRef = React.useRef(getActionFromState);
+  const resetRef = React.useRef(reset);
+  const getInitialURLRef = React.useRef(getInitialURL);
+  const subscribeRef = React.useRef(subscribe);
 
   React.useEffect(() => {
     prefixesRef.current = prefixes;
+    filterRef.current = filter;
     configRef.current = config;
     getStateFromPathRef.current = getStateFromPath;
-  }, [config, getStateFromPath, prefixes]);
+    getActionFromStateRef.current = getActionFromState;
+    resetRef.current = reset;
+    getInitialURLRef.current = getInitialURL;
+    subscribeRef.current = subscribe;
+  }, [
+    config,
+    filter,
+    getActionFromState,
+    getInitialURL,
+    getStateFromPath,
+    prefixes,
+    reset,
+    subscribe,
+  ]);
 
-  const extractPathFromURL = React.useCallback((url: string) => {
-    for (const prefix of prefixesRef.current) {
-      if (url.startsWith(prefix)) {
-        return url.replace(prefix, '');
-      }
+  const getPathFromURL = React.useCallback((url: string) => {
+    if (filterRef.current && !filterRef.current(url)) {
+      return undefined;
     }
 
-    return undefined;
+    return extractPathFromURL(prefixesRef.current, url);
   }, []);
 
   const getInitialState = React.useCallback(async () => {
-    const url = await Linking.getInitialURL();
-    const path = url ? extractPathFromURL(url) : null;
+    const url = await getInitialURLRef.current();
+    const path = url ? getPathFromURL(url) : null;
 
     if (path) {
       return getStateFromPathRef.current(path, configRef.current);
     } else {
       return undefined;
     }
-  }, [extractPathFromURL]);
+  }, [getPathFromURL]);
 
   React.useEffect(() => {
-    const listener = ({ url }: { url: string }) => {
-      const path = extractPathFromURL(url);
+    const listener = (url: string) => {
+      const path = getPathFromURL(url);
       const navigation = ref.current;
 
       if (navigation && path) {
         const state = getStateFromPathRef.current(path, configRef.current);
 
         if (state) {
-          navigation.resetRoot(state);
+          const action = resetRef.current
+            ? undefined
+            : getActionFromStateRef.current(state);
+
+          // If the state can't be represented with an action, fall back to resetting the whole state
+          if (action !== undefined) {
+            navigation.dispatch(action);
+          } else {
+            navigation.resetRoot(state);
+          }
         }
       }
     };
 
-    Linking.addEventListener('url', listener);
-
-    return () => Linking.removeEventListener('url', listener);
-  }, [extractPathFromURL, ref]);
+    return subscribeRef.current(listener);
+  }, [getPathFromURL, ref]);
 
   return {
     getInitialState,
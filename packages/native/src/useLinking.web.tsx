@@ -0,0 +1,175 @@
+import * as React from 'react';
+import {
+  getStateFromPath as getStateFromPathDefault,
+  getPathFromState as getPathFromStateDefault,
+  NavigationContainerRef,
+  NavigationState,
+  ParamListBase,
+} from '@react-navigation/core';
+import { LinkingOptions } from './types';
+
+type StateLike = {
+  index?: number;
+  routes: Array<{ state?: StateLike }>;
+};
+
+/**
+ * Get the number of entries in the stacks of the focused navigators.
+ * When the number grows, a new history entry needs to be pushed instead of replacing the current one.
+ *
+ * @param state State object to get the length for.
+ */
+const getStateLength = (state: StateLike): number => {
+  const index = typeof state.index === 'number' ? state.index : 0;
+  const focusedState = state.routes[index].state;
+
+  return (
+    index + (focusedState !== undefined ? getStateLength(focusedState) : 1)
+  );
+};
+
+const getCurrentPath = () => location.pathname + location.search;
+
+const getHistoryIndex = () =>
+  history.state && typeof history.state.index === 'number'
+    ? history.state.index
+    : 0;
+
+/**
+ * Hook to sync the navigation state with the browser history on the web.
+ * The path is written to `window.history` on every state change, and browser back/forward buttons update the state.
+ */
+export default function useLinking<
+  ParamList extends ParamListBase = ParamListBase
+>(
+  ref: React.RefObject<NavigationContainerRef>,
+  {
+    config,
+    getStateFromPath = getStateFromPathDefault,
+    getPathFromState = getPathFromStateDefault,
+  }: LinkingOptions<ParamList>
+) {
+  // We store these options in ref to avoid re-creating getInitialState and re-subscribing listeners
+  // This lets user avoid wrapping the items in `React.useCallback` or `React.useMemo`
+  const configRef = React.useRef(config);
+  const getStateFromPathRef = React.useRef(getStateFromPath);
+  const getPathFromStateRef = React.useRef(getPathFromState);
+
+  React.useEffect(() => {
+    configRef.current = config;
+    getStateFromPathRef.current = getStateFromPath;
+    getPathFromStateRef.current = getPathFromState;
+  }, [config, getPathFromState, getStateFromPath]);
+
+  const getInitialState = React.useCallback(async () => {
+    const path = getCurrentPath();
+
+    return path !== '/'
+      ? getStateFromPathRef.current(path, configRef.current)
+      : undefined;
+  }, []);
+
+  React.useEffect(() => {
+    const navigation = ref.current;
+
+    if (!navigation) {
+      return;
+    }
+
+    let previousStateLength: number | undefined;
+    let historyIndex = getHistoryIndex();
+
+    // Whether the next state change was caused by the browser's back/forward buttons
+    let isPopping = false;
+
+    const onStateChange = (state: NavigationState | undefined) => {
+      if (state === undefined) {
+        return;
+      }
+
+      const path = getPathFromStateRef.current(state, configRef.current);
+      const stateLength = getStateLength(state);
+
+      if (isPopping) {
+        isPopping = false;
+
+        // The browser has already changed the location
+        // But the resulting state may not have the same path, e.g. when going back to a route with different params
+        if (path !== getCurrentPath()) {
+          history.replaceState({ index: historyIndex }, '', path);
+        }
+      } else if (
+        previousStateLength !== undefined &&
+        stateLength > previousStateLength
+      ) {
+        // When the stacks grew, the user navigated to a new screen, so we add a new history entry
+        historyIndex++;
+        history.pushState({ index: historyIndex }, '', path);
+      } else {
+        history.replaceState({ index: historyIndex }, '', path);
+      }
+
+      previousStateLength = stateLength;
+    };
+
+    const onPopState = () => {
+      const navigation = ref.current;
+
+      if (!navigation) {
+        return;
+      }
+
+      const index = getHistoryIndex();
+      const isBack = index === historyIndex - 1;
+
+      historyIndex = index;
+
+      if (isBack && navigation.canGoBack()) {
+        // If the action is prevented or doesn't change the state, there won't be a state change to reset the flag
+        // So we only set the flag if a navigator handled the action with a new state
+        const unsubscribe = navigation.addListener('__unsafe_action__', e => {
+          isPopping = !e.data.noop;
+        });
+
+        navigation.goBack();
+        unsubscribe();
+        return;
+      }
+
+      // When going forward or jumping to another entry, we don't know the actions leading to it
+      // So we reset the state to the one represented by the path
+      const state = getStateFromPathRef.current(
+        getCurrentPath(),
+        configRef.current
+      );
+
+      if (state) {
+        isPopping = true;
+        navigation.resetRoot(state);
+      }
+    };
+
+    const onReady = () => onStateChange(navigation.getRootState());
+
+    if (navigation.isReady()) {
+      onReady();
+    }
+
+    const unsubscribeReady = navigation.addListener('ready', onReady);
+    const unsubscribeState = navigation.addListener('state', e =>
+      onStateChange(e.data.state)
+    );
+
+    window.addEventListener('popstate', onPopState);
+
+    return () => {
+      unsubscribeReady();
+      unsubscribeState();
+      window.removeEventListener('popstate', onPopState);
+    };
+  }, [ref]);
+
+  return {
+    getInitialState,
+  };
+}
@@ -61,41 +61,59 @@ export default function useScrollToTop(
       return;
     }
 
-    const unsubscribe = current.addListener(
-      // We don't wanna import tab types here to avoid extra deps
-      // in addition, there are multiple tab implementations
-      // @ts-ignore
-      'tabPress',
-      (e: EventArg<'tabPress'>) => {
-        // We should scroll to top only when the screen is focused
-        const isFocused = navigation.isFocused();
-
-        // In a nested stack navigator, tab press resets the stack to first screen
-        // So we should scroll to top only when we are on first screen
-        const isFirst =
-          navigation === current ||
-          navigation.dangerouslyGetState().routes[0].key === route.key;
-
-        // Run the operation in the next frame so we're sure all listeners have been run
-        // This is necessary to know if preventDefault() has been called
-        requestAnimationFrame(() => {
-          const scrollable = getScrollableNode(ref);
-
-          if (isFocused && isFirst && scrollable && !e.defaultPrevented) {
-            if ('scrollToTop' in scrollable) {
-              scrollable.scrollToTop();
-            } else if ('scrollTo' in scrollable) {
-              scrollable.scrollTo({ y: 0, animated: true });
-            } else if ('scrollToOffset' in scrollable) {
-              scrollable.scrollToOffset({ y: 0, animated: true });
-            } else if ('scrollResponderScrollTo' in scrollable) {
-              scrollable.scrollResponderScrollTo({ y: 0, animated: true });
-            }
+    const listener = (
+      e: EventArg<'tabPress' | 'tabLongPress', { popToTop: boolean }>
+    ) => {
+      // Tab navigators which don't say otherwise reset the nested stack when the focused tab is tapped
+      // With parallel stacks, the stack is reset on long press instead
+      const popToTop = e.data ? e.data.popToTop : e.type === 'tabPress';
+
+      // Tapping the focused tab scrolls to top when its stack is already at the root, even if it doesn't reset the stack
+      // Long press only scrolls to top when it resets the stack
+      const shouldScroll = e.type === 'tabPress' || popToTop;
+
+      // We should scroll to top only when the screen is focused
+      // Long press resets the stack of the tab even if it isn't focused
+      const isFocused = e.type === 'tabLongPress' || navigation.isFocused();
+
+      // In a nested stack navigator, tab press resets the stack to first screen
+      // So we should scroll to top only when we are on first screen
+      const isFirst =
+        navigation === current ||
+        navigation.dangerouslyGetState().routes[0].key === route.key;
+
+      // Run the operation in the next frame so we're sure all listeners have been run
+      // This is necessary to know if preventDefault() has been called
+      requestAnimationFrame(() => {
+        const scrollable = getScrollableNode(ref);
+
+        if (
+          shouldScroll &&
+          isFocused &&
+          isFirst &&
+          scrollable &&
+          !e.defaultPrevented
+        ) {
+          if ('scrollToTop' in scrollable) {
+            scrollable.scrollToTop();
+          } else if ('scrollTo' in scrollable) {
+            scrollable.scrollTo({ y: 0, animated: true });
+          } else if ('scrollToOffset' in scrollable) {
+            scrollable.scrollToOffset({ y: 0, animated: true });
+          } else if ('scrollResponderScrollTo' in scrollable) {
+            scrollable.scrollResponderScrollTo({ y: 0, animated: true });
           }
-        });
-      }
+        }
+      });
+    };
+
+    // We don't wanna import tab types here to avoid extra deps
+    // in addition, there are multiple tab implementations
+    const unsubscribers = ['tabPress', 'tabLongPress'].map(type =>
+      // @ts-ignore
+      current.addListener(type, listener)
     );
 
-    return unsubscribe;
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, [navigation, ref, route.key]);
 }
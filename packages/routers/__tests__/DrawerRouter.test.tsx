@@ -1,5 +1,5 @@
 import { CommonActions } from '@react-navigation/core';
-import { DrawerRouter, DrawerActions } from '../src';
+import { DrawerRouter, DrawerActions, DrawerNavigationState } from '../src';
 
 jest.mock('shortid', () => () => 'test');
 
@@ -18,6 +18,7 @@ it('gets initial state from route names and params with initialRouteName', () =>
     index: 1,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -45,6 +46,7 @@ it('gets initial state from route names and params without initialRouteName', ()
     index: 0,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -82,6 +84,7 @@ it('gets rehydrated state from partial state', () => {
     index: 0,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -104,6 +107,7 @@ it('gets rehydrated state from partial state', () => {
     index: 1,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -131,6 +135,7 @@ it('gets rehydrated state from partial state', () => {
     index: 2,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -154,6 +159,7 @@ it('gets rehydrated state from partial state', () => {
     index: 2,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -170,6 +176,7 @@ it('gets rehydrated state from partial state', () => {
       {
         index: 1,
         isDrawerOpen: true,
+        drawerMode: 'collapsed',
         routeKeyHistory: ['bar-test', 'qux-test', 'foo-test'],
         routes: [],
       },
@@ -179,6 +186,7 @@ it('gets rehydrated state from partial state', () => {
     index: 1,
     key: 'drawer-test',
     isDrawerOpen: true,
+    drawerMode: 'collapsed',
     routeKeyHistory: ['bar-test', 'qux-test'],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -198,6 +206,7 @@ it("doesn't rehydrate state if it's not stale", () => {
     index: 0,
     key: 'drawer-test',
     isDrawerOpen: true,
+    drawerMode: 'modal' as const,
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -234,6 +243,7 @@ it('handles navigate action', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: false,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -249,6 +259,7 @@ it('handles navigate action', () => {
     index: 0,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: ['bar'],
     routes: [
       { key: 'baz', name: 'baz', params: { answer: 42 } },
@@ -274,6 +285,7 @@ it('handles navigate action with open drawer', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: true,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -289,6 +301,7 @@ it('handles navigate action with open drawer', () => {
     index: 0,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: ['bar'],
     routes: [
       { key: 'baz', name: 'baz', params: { answer: 42 } },
@@ -314,6 +327,7 @@ it('handles open drawer action', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: false,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -329,6 +343,7 @@ it('handles open drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: true,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -343,6 +358,7 @@ it('handles open drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: true,
+    drawerMode: 'modal' as const,
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -372,6 +388,7 @@ it('handles close drawer action', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: true,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -387,6 +404,7 @@ it('handles close drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -401,6 +419,7 @@ it('handles close drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: false,
+    drawerMode: 'modal' as const,
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -430,6 +449,7 @@ it('handles toggle drawer action', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: true,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -445,6 +465,7 @@ it('handles toggle drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: false,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -462,6 +483,7 @@ it('handles toggle drawer action', () => {
         routeNames: ['baz', 'bar'],
         routeKeyHistory: [],
         isDrawerOpen: false,
+        drawerMode: 'modal',
         routes: [
           { key: 'baz', name: 'baz' },
           { key: 'bar', name: 'bar' },
@@ -477,6 +499,7 @@ it('handles toggle drawer action', () => {
     index: 1,
     routeNames: ['baz', 'bar'],
     isDrawerOpen: true,
+    drawerMode: 'modal',
     routeKeyHistory: [],
     routes: [
       { key: 'baz', name: 'baz' },
@@ -492,6 +515,7 @@ it('updates route key history on focus change', () => {
     index: 0,
     key: 'drawer-test',
     isDrawerOpen: false,
+    drawerMode: 'modal' as const,
     routeKeyHistory: [],
     routeNames: ['bar', 'baz', 'qux'],
     routes: [
@@ -521,6 +545,7 @@ it('closes drawer on focus change', () => {
         index: 0,
         key: 'drawer-test',
         isDrawerOpen: false,
+        drawerMode: 'modal',
         routeKeyHistory: [],
         routeNames: ['bar', 'baz', 'qux'],
         routes: [
@@ -536,6 +561,7 @@ it('closes drawer on focus change', () => {
   ).toEqual({
     index: 1,
     isDrawerOpen: false,
+    drawerMode: 'modal',
     key: 'drawer-test',
     routeKeyHistory: ['bar-0'],
     routeNames: ['bar', 'baz', 'qux'],
@@ -554,6 +580,7 @@ it('closes drawer on focus change', () => {
         index: 0,
         key: 'drawer-test',
         isDrawerOpen: true,
+        drawerMode: 'modal',
         routeKeyHistory: [],
         routeNames: ['bar', 'baz', 'qux'],
         routes: [
@@ -569,6 +596,7 @@ it('closes drawer on focus change', () => {
   ).toEqual({
     index: 1,
     isDrawerOpen: false,
+    drawerMode: 'modal',
     key: 'drawer-test',
     routeKeyHistory: ['bar-0'],
     routeNames: ['bar', 'baz', 'qux'],
@@ -581,3 +609,153 @@ it('closes drawer on focus change', () => {
     type: 'drawer',
   });
 });
+
+it('gets initial state with drawer mode', () => {
+  const router = DrawerRouter({ drawerMode: 'permanent' });
+
+  expect(
+    router.getInitialState({
+      routeNames: ['bar', 'baz'],
+      routeParamList: {},
+    })
+  ).toEqual({
+    index: 0,
+    key: 'drawer-test',
+    isDrawerOpen: false,
+    drawerMode: 'permanent',
+    routeKeyHistory: [],
+    routeNames: ['bar', 'baz'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+    ],
+    stale: false,
+    type: 'drawer',
+  });
+});
+
+it('handles set drawer mode action', () => {
+  const router = DrawerRouter({});
+  const options = {
+    routeNames: ['baz', 'bar'],
+    routeParamList: {},
+  };
+
+  const state: DrawerNavigationState = {
+    stale: false,
+    type: 'drawer',
+    key: 'root',
+    index: 1,
+    routeNames: ['baz', 'bar'],
+    routeKeyHistory: [],
+    isDrawerOpen: true,
+    drawerMode: 'modal',
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      DrawerActions.setDrawerMode('permanent'),
+      options
+    )
+  ).toEqual({
+    ...state,
+    isDrawerOpen: false,
+    drawerMode: 'permanent',
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      DrawerActions.setDrawerMode('modal'),
+      options
+    )
+  ).toBe(state);
+});
+
+it("doesn't open or close drawer in permanent mode", () => {
+  const router = DrawerRouter({ drawerMode: 'permanent' });
+  const options = {
+    routeNames: ['baz', 'bar'],
+    routeParamList: {},
+  };
+
+  const state: DrawerNavigationState = {
+    stale: false,
+    type: 'drawer',
+    key: 'root',
+    index: 1,
+    routeNames: ['baz', 'bar'],
+    routeKeyHistory: ['baz'],
+    isDrawerOpen: false,
+    drawerMode: 'permanent',
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(state, DrawerActions.openDrawer(), options)
+  ).toBe(state);
+
+  expect(
+    router.getStateForAction(state, DrawerActions.toggleDrawer(), options)
+  ).toBe(state);
+
+  expect(
+    router.getStateForAction(state, DrawerActions.closeDrawer(), options)
+  ).toBe(state);
+});
+
+it('handles back action depending on drawer mode', () => {
+  const router = DrawerRouter({});
+  const options = {
+    routeNames: ['baz', 'bar'],
+    routeParamList: {},
+  };
+
+  const state: DrawerNavigationState = {
+    stale: false,
+    type: 'drawer',
+    key: 'root',
+    index: 1,
+    routeNames: ['baz', 'bar'],
+    routeKeyHistory: ['baz'],
+    isDrawerOpen: true,
+    drawerMode: 'modal',
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual({ ...state, isDrawerOpen: false });
+
+  expect(
+    router.getStateForAction(
+      { ...state, drawerMode: 'collapsed' },
+      CommonActions.goBack(),
+      options
+    )
+  ).toEqual({ ...state, drawerMode: 'collapsed', isDrawerOpen: false });
+
+  expect(
+    router.getStateForAction(
+      { ...state, drawerMode: 'permanent' },
+      CommonActions.goBack(),
+      options
+    )
+  ).toEqual({
+    ...state,
+    drawerMode: 'permanent',
+    index: 0,
+    routeKeyHistory: [],
+  });
+});
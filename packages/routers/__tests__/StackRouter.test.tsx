@@ -428,6 +428,76 @@ it('handles navigate action', () => {
   });
 });
 
+it('handles navigate action with getId', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+    routeGetIdList: {
+      bar: ({ params }: { params?: any }) =>
+        params ? String(params.id) : undefined,
+    },
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar-1', name: 'bar', params: { id: 1 } },
+      { key: 'qux', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { id: 2 }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 3,
+    routes: [
+      ...state.routes,
+      { key: 'bar-test', name: 'bar', params: { id: 2 } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { id: 1, answer: 42 }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar-1', name: 'bar', params: { id: 1, answer: 42 } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate({ key: 'bar-1', params: { id: 3 } }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar-1', name: 'bar', params: { id: 3 } },
+    ],
+  });
+});
+
 it('handles go back action', () => {
   const router = StackRouter({});
   const options = {
@@ -738,3 +808,310 @@ it('changes index on focus change', () => {
 
   expect(router.getStateForRouteFocus(state, 'qux-0')).toEqual(state);
 });
+
+it('handles pop to action', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 3,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+      { key: 'bar-1', name: 'bar' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(state, StackActions.popTo('bar'), options)
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: state.routes.slice(0, 3),
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.popTo({ key: 'bar-0' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: state.routes.slice(0, 2),
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      { ...StackActions.popTo('bar'), target: 'root', source: 'bar-1' },
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: state.routes.slice(0, 3),
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      { ...StackActions.popTo('qux'), target: 'root', source: 'bar-1' },
+      options
+    )
+  ).toBe(null);
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.popTo({ name: 'bar' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: state.routes.slice(0, 3),
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.popTo('bar-0'), options)
+  ).toBe(null);
+
+  expect(
+    router.getStateForAction(state, StackActions.popTo('unknown'), options)
+  ).toBe(null);
+});
+
+it('handles remove action', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(state, StackActions.remove(['bar-0']), options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      { ...StackActions.remove(), target: 'root', source: 'qux-0' },
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.remove(['unknown']), options)
+  ).toBe(null);
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.remove(['baz-0', 'bar-0', 'qux-0']),
+      options
+    )
+  ).toBe(null);
+});
+
+it('handles insert action', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: { bar: { answer: 42 } },
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 1,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(-2, { name: 'bar', params: { count: 1 } }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-test', name: 'bar', params: { answer: 42, count: 1 } },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(-1, { name: 'baz', key: 'baz-1' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+      { key: 'baz-1', name: 'baz' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(-10, { name: 'baz', key: 'baz-1' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      { key: 'baz-1', name: 'baz' },
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(0, { name: 'baz', key: 'baz-1' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      { key: 'baz-1', name: 'baz' },
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(10, { name: 'baz', key: 'baz-1' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+      { key: 'baz-1', name: 'baz' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.insert(0, { name: 'unknown' }),
+      options
+    )
+  ).toBe(null);
+});
+
+it('handles move to action', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(state, StackActions.moveTo('baz-0', -1), options)
+  ).toEqual({
+    ...state,
+    routes: [
+      { key: 'bar-0', name: 'bar' },
+      { key: 'qux-0', name: 'qux' },
+      { key: 'baz-0', name: 'baz' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.moveTo('baz-0', -2), options)
+  ).toEqual({
+    ...state,
+    routes: [
+      { key: 'bar-0', name: 'bar' },
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.moveTo('qux-0', 0), options)
+  ).toEqual({
+    ...state,
+    routes: [
+      { key: 'qux-0', name: 'qux' },
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.moveTo('unknown', 0), options)
+  ).toBe(null);
+});
@@ -235,7 +235,7 @@ it('gets state on route names change', () => {
       }
     )
   ).toEqual({
-    index: 0,
+    index: 1,
     key: 'tab-test',
     routeKeyHistory: [],
     routeNames: ['qux', 'baz', 'foo', 'fiz'],
@@ -250,6 +250,214 @@ it('gets state on route names change', () => {
   });
 });
 
+it('preserves focused tab and nested state on route names change', () => {
+  const router = TabRouter({});
+
+  expect(
+    router.getStateForRouteNamesChange(
+      {
+        index: 1,
+        key: 'tab-test',
+        routeKeyHistory: ['bar-test', 'qux-test'],
+        routeNames: ['bar', 'baz', 'qux'],
+        routes: [
+          { key: 'bar-test', name: 'bar' },
+          {
+            key: 'baz-test',
+            name: 'baz',
+            params: { answer: 42 },
+            state: {
+              stale: false,
+              type: 'stack',
+              key: 'stack-test',
+              index: 1,
+              routeNames: ['lex', 'fiz'],
+              routes: [
+                { key: 'lex-test', name: 'lex' },
+                { key: 'fiz-test', name: 'fiz' },
+              ],
+            },
+          },
+          { key: 'qux-test', name: 'qux' },
+        ],
+        stale: false,
+        type: 'tab',
+      },
+      {
+        routeNames: ['foo', 'qux', 'baz'],
+        routeParamList: {
+          baz: { answer: 7 },
+        },
+      }
+    )
+  ).toEqual({
+    index: 2,
+    key: 'tab-test',
+    routeKeyHistory: ['qux-test'],
+    routeNames: ['foo', 'qux', 'baz'],
+    routes: [
+      { key: 'foo-test', name: 'foo' },
+      { key: 'qux-test', name: 'qux' },
+      {
+        key: 'baz-test',
+        name: 'baz',
+        params: { answer: 42 },
+        state: {
+          stale: false,
+          type: 'stack',
+          key: 'stack-test',
+          index: 1,
+          routeNames: ['lex', 'fiz'],
+          routes: [
+            { key: 'lex-test', name: 'lex' },
+            { key: 'fiz-test', name: 'fiz' },
+          ],
+        },
+      },
+    ],
+    stale: false,
+    type: 'tab',
+  });
+});
+
+it('focuses a neighbour tab when the focused tab is removed', () => {
+  const router = TabRouter({ initialRouteName: 'foo' });
+  const state: TabNavigationState = {
+    index: 1,
+    key: 'tab-test',
+    routeKeyHistory: [],
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+    stale: false,
+    type: 'tab',
+  };
+
+  const next = router.getStateForRouteNamesChange(state, {
+    routeNames: ['bar', 'qux'],
+    routeParamList: {},
+  });
+
+  expect(next.index).toBe(1);
+  expect(next.routes[next.index].key).toBe('qux-test');
+
+  const previous = router.getStateForRouteNamesChange(state, {
+    routeNames: ['bar'],
+    routeParamList: {},
+  });
+
+  expect(previous.index).toBe(0);
+  expect(previous.routes[previous.index].key).toBe('bar-test');
+
+  const initial = router.getStateForRouteNamesChange(state, {
+    routeNames: ['lex', 'foo'],
+    routeParamList: {},
+  });
+
+  expect(initial.index).toBe(1);
+  expect(initial.routes[initial.index]).toEqual({
+    key: 'foo-test',
+    name: 'foo',
+  });
+});
+
+it('cleans up route key history for removed tabs', () => {
+  const router = TabRouter({ parallelStacks: true });
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state: TabNavigationState = {
+    index: 0,
+    key: 'tab-test',
+    routeKeyHistory: [],
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+    stale: false,
+    type: 'tab',
+  };
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('bar'),
+    options
+  ) as TabNavigationState;
+
+  expect(state.routeKeyHistory).toEqual([
+    'bar-test',
+    'qux-test',
+    'baz-test',
+    'qux-test',
+  ]);
+
+  state = router.getStateForRouteNamesChange(state, {
+    routeNames: ['bar', 'qux'],
+    routeParamList: {},
+  });
+
+  expect(state.index).toBe(0);
+  expect(state.routeKeyHistory).toEqual(['bar-test', 'qux-test']);
+
+  state = router.getStateForRouteNamesChange(state, {
+    routeNames: ['bar'],
+    routeParamList: {},
+  });
+
+  expect(state.routeKeyHistory).toEqual([]);
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), {
+      routeNames: ['bar'],
+      routeParamList: {},
+    })
+  ).toBe(null);
+
+  state = {
+    ...state,
+    index: 1,
+    routeKeyHistory: ['bar-test', 'baz-test', 'bar-test'],
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+  };
+
+  state = router.getStateForRouteNamesChange(state, {
+    routeNames: ['bar', 'qux'],
+    routeParamList: {},
+  });
+
+  expect(state.routes[state.index].key).toBe('qux-test');
+  expect(state.routeKeyHistory).toEqual(['bar-test']);
+});
+
 it('handles navigate action', () => {
   const router = TabRouter({});
   const options = {
@@ -666,3 +874,144 @@ it('updates route key history on focus change', () => {
     'bar-0',
   ]);
 });
+
+it('keeps every visit in route key history with parallel stacks', () => {
+  const router = TabRouter({ parallelStacks: true, backBehavior: 'none' });
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state: TabNavigationState = {
+    index: 0,
+    key: 'tab-test',
+    routeKeyHistory: [],
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-0', name: 'bar' },
+      {
+        key: 'baz-0',
+        name: 'baz',
+        state: {
+          stale: false,
+          type: 'stack',
+          key: 'stack-baz',
+          index: 1,
+          routeNames: ['lex', 'qux'],
+          routes: [
+            { key: 'lex-0', name: 'lex' },
+            { key: 'qux-1', name: 'qux' },
+          ],
+        },
+      },
+      { key: 'qux-0', name: 'qux' },
+    ],
+    stale: false as const,
+    type: 'tab',
+  };
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.navigate('qux'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  expect(state.routeKeyHistory).toEqual(['bar-0', 'baz-0', 'qux-0']);
+  expect(state.routes[state.index]).toEqual({
+    key: 'baz-0',
+    name: 'baz',
+    state: {
+      stale: false,
+      type: 'stack',
+      key: 'stack-baz',
+      index: 1,
+      routeNames: ['lex', 'qux'],
+      routes: [
+        { key: 'lex-0', name: 'lex' },
+        { key: 'qux-1', name: 'qux' },
+      ],
+    },
+  });
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state.index).toBe(2);
+  expect(state.routeKeyHistory).toEqual(['bar-0', 'baz-0']);
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state.index).toBe(1);
+  expect(state.routeKeyHistory).toEqual(['bar-0']);
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state.index).toBe(0);
+  expect(state.routeKeyHistory).toEqual([]);
+
+  expect(router.getStateForAction(state, CommonActions.goBack(), options)).toBe(
+    null
+  );
+});
+
+it('limits route key history with parallel stacks', () => {
+  const router = TabRouter({ parallelStacks: true });
+  const options = {
+    routeNames: ['bar', 'baz'],
+    routeParamList: {},
+  };
+
+  let state: TabNavigationState = {
+    index: 0,
+    key: 'tab-test',
+    routeKeyHistory: [],
+    routeNames: ['bar', 'baz'],
+    routes: [
+      { key: 'bar-0', name: 'bar' },
+      { key: 'baz-0', name: 'baz' },
+    ],
+    stale: false as const,
+    type: 'tab',
+  };
+
+  for (let i = 0; i < 100; i++) {
+    state = router.getStateForAction(
+      state,
+      TabActions.jumpTo(i % 2 === 0 ? 'baz' : 'bar'),
+      options
+    ) as TabNavigationState;
+  }
+
+  expect(state.index).toBe(0);
+  expect(state.routeKeyHistory.length).toBe(50);
+  expect(state.routeKeyHistory.slice(-3)).toEqual(['baz-0', 'bar-0', 'baz-0']);
+});
@@ -7,15 +7,31 @@ import TabRouter, {
   TabNavigationState,
 } from './TabRouter';
 
+export type DrawerMode = 'modal' | 'permanent' | 'collapsed';
+
 export type DrawerActionType =
   | TabActionType
   | {
       type: 'OPEN_DRAWER' | 'CLOSE_DRAWER' | 'TOGGLE_DRAWER';
       source?: string;
       target?: string;
+    }
+  | {
+      type: 'SET_DRAWER_MODE';
+      payload: { mode: DrawerMode };
+      source?: string;
+      target?: string;
     };
 
-export type DrawerRouterOptions = TabRouterOptions;
+export type DrawerRouterOptions = TabRouterOptions & {
+  /**
+   * How the drawer is displayed. Defaults to `modal`.
+   * - `modal`: the drawer slides over the content and is closed by going back.
+   * - `permanent`: the drawer is always visible next to the content and can't be opened or closed.
+   * - `collapsed`: a narrow drawer is always visible next to the content, and opening it expands it.
+   */
+  drawerMode?: DrawerMode;
+};
 
 export type DrawerNavigationState = Omit<TabNavigationState, 'type'> & {
   /**
@@ -26,6 +42,10 @@ export type DrawerNavigationState = Omit<TabNavigationState, 'type'> & {
    * Whether the drawer is open or closed.
    */
   isDrawerOpen: boolean;
+  /**
+   * How the drawer is displayed, e.g. `permanent` on tablets and `modal` on phones.
+   */
+  drawerMode: DrawerMode;
 };
 
 export const DrawerActions = {
@@ -39,11 +59,18 @@ export const DrawerActions = {
   toggleDrawer(): DrawerActionType {
     return { type: 'TOGGLE_DRAWER' };
   },
+  setDrawerMode(mode: DrawerMode): DrawerActionType {
+    return { type: 'SET_DRAWER_MODE', payload: { mode } };
+  },
 };
 
-export default function DrawerRouter(
-  options: DrawerRouterOptions
-): Router<DrawerNavigationState, DrawerActionType | CommonAction> {
+export default function DrawerRouter({
+  drawerMode = 'modal',
+  ...options
+}: DrawerRouterOptions): Router<
+  DrawerNavigationState,
+  DrawerActionType | CommonAction
+> {
   const router = (TabRouter(options) as unknown) as Router<
     DrawerNavigationState,
     TabActionType | CommonAction
@@ -73,6 +100,7 @@ export default function DrawerRouter(
           params: routeParamList[name],
         })),
         isDrawerOpen: false,
+        drawerMode,
       };
     },
 
@@ -94,6 +122,10 @@ export default function DrawerRouter(
           typeof partialState.isDrawerOpen === 'boolean'
             ? partialState.isDrawerOpen
             : false,
+        drawerMode:
+          partialState.drawerMode !== undefined
+            ? partialState.drawerMode
+            : drawerMode,
       };
     },
 
@@ -117,8 +149,19 @@ export default function DrawerRouter(
 
     getStateForAction(state, action, options) {
       switch (action.type) {
+        case 'SET_DRAWER_MODE':
+          if (state.drawerMode === action.payload.mode) {
+            return state;
+          }
+
+          return {
+            ...state,
+            drawerMode: action.payload.mode,
+            isDrawerOpen: false,
+          };
+
         case 'OPEN_DRAWER':
-          if (state.isDrawerOpen) {
+          if (state.isDrawerOpen || state.drawerMode === 'permanent') {
             return state;
           }
 
@@ -138,6 +181,10 @@ export default function DrawerRouter(
           };
 
         case 'TOGGLE_DRAWER':
+          if (state.drawerMode === 'permanent') {
+            return state;
+          }
+
           return {
             ...state,
             isDrawerOpen: !state.isDrawerOpen,
@@ -154,7 +201,8 @@ export default function DrawerRouter(
           );
 
         case 'GO_BACK':
-          if (state.isDrawerOpen) {
+          // The open drawer acts like a history entry, except when it's permanently visible
+          if (state.isDrawerOpen && state.drawerMode !== 'permanent') {
             return {
               ...state,
               isDrawerOpen: false,
@@ -25,6 +25,37 @@ export type StackActionType =
       type: 'POP_TO_TOP';
       source?: string;
       target?: string;
+    }
+  | {
+      type: 'POP_TO';
+      payload:
+        | { key: string; name?: undefined }
+        | { name: string; key?: undefined };
+      source?: string;
+      target?: string;
+    }
+  | {
+      type: 'REMOVE';
+      payload: { keys?: string[] };
+      source?: string;
+      target?: string;
+    }
+  | {
+      type: 'INSERT';
+      payload: {
+        index: number;
+        name: string;
+        key?: string | undefined;
+        params?: object;
+      };
+      source?: string;
+      target?: string;
+    }
+  | {
+      type: 'MOVE_TO';
+      payload: { key: string; index: number };
+      source?: string;
+      target?: string;
     };
 
 export type StackRouterOptions = DefaultRouterOptions;
@@ -46,8 +77,33 @@ export const StackActions = {
   popToTop(): StackActionType {
     return { type: 'POP_TO_TOP' };
   },
+  popTo(route: string | { key: string } | { name: string }): StackActionType {
+    return {
+      type: 'POP_TO',
+      payload: typeof route === 'string' ? { name: route } : route,
+    };
+  },
+  remove(keys?: string[]): StackActionType {
+    return { type: 'REMOVE', payload: { keys } };
+  },
+  insert(
+    index: number,
+    route: { name: string; key?: string; params?: object }
+  ): StackActionType {
+    return { type: 'INSERT', payload: { index, ...route } };
+  },
+  moveTo(key: string, index: number): StackActionType {
+    return { type: 'MOVE_TO', payload: { key, index } };
+  },
 };
 
+/**
+ * Convert the index of a route in the resulting stack, which can be negative to count from the end.
+ * The index `-1` is the top of the stack, and out of range indices are clamped to the bottom or the top.
+ */
+const getAbsoluteIndex = (index: number, length: number) =>
+  Math.min(Math.max(index < 0 ? length + index : index, 0), length - 1);
+
 export default function StackRouter(options: StackRouterOptions) {
   const router: Router<StackNavigationState, CommonAction | StackActionType> = {
     ...BaseRouter,
@@ -228,6 +284,113 @@ export default function StackRouter(options: StackRouterOptions) {
             options
           );
 
+        case 'POP_TO': {
+          // Only look for routes below the source route if it's in this stack
+          const end =
+            action.target === state.key && action.source
+              ? state.routes.findIndex(r => r.key === action.source)
+              : state.index;
+
+          const { key, name } = action.payload;
+
+          let index = -1;
+
+          // Pop to the route with the key, or the last route with the name
+          for (let i = end; i >= 0; i--) {
+            if (
+              key !== undefined
+                ? state.routes[i].key === key
+                : state.routes[i].name === name
+            ) {
+              index = i;
+              break;
+            }
+          }
+
+          if (index === -1) {
+            return null;
+          }
+
+          return {
+            ...state,
+            index,
+            routes: state.routes.slice(0, index + 1),
+          };
+        }
+
+        case 'REMOVE': {
+          // Without any keys, the route which dispatched the action is removed
+          const keys =
+            action.payload.keys !== undefined
+              ? action.payload.keys
+              : action.target === state.key && action.source
+              ? [action.source]
+              : [];
+
+          const routes = state.routes.filter(r => !keys.includes(r.key));
+
+          // There should always be at least one route in the stack
+          if (routes.length === state.routes.length || routes.length === 0) {
+            return null;
+          }
+
+          return {
+            ...state,
+            index: routes.length - 1,
+            routes,
+          };
+        }
+
+        case 'INSERT': {
+          const { index, key, name, params } = action.payload;
+
+          if (!state.routeNames.includes(name)) {
+            return null;
+          }
+
+          const routes = state.routes.slice();
+
+          routes.splice(getAbsoluteIndex(index, routes.length + 1), 0, {
+            key: key === undefined ? `${name}-${shortid()}` : key,
+            name,
+            params:
+              routeParamList[name] !== undefined
+                ? { ...routeParamList[name], ...params }
+                : params,
+          });
+
+          return {
+            ...state,
+            index: routes.length - 1,
+            routes,
+          };
+        }
+
+        case 'MOVE_TO': {
+          const from = state.routes.findIndex(
+            r => r.key === action.payload.key
+          );
+
+          if (from === -1) {
+            return null;
+          }
+
+          const routes = state.routes.slice();
+          const [route] = routes.splice(from, 1);
+
+          routes.splice(
+            getAbsoluteIndex(action.payload.index, routes.length + 1),
+            0,
+            route
+          );
+
+          return {
+            ...state,
+            index: routes.length - 1,
+            routes,
+          };
+        }
+
         case 'NAVIGATE':
           if (
             action.payload.key ||
@@ -237,19 +400,35 @@ export default function StackRouter(options: StackRouterOptions) {
             // If the route already exists, navigate to that
             let index = -1;
 
-            if (
-              (state.routes[state.index].name === action.payload.name &&
-                action.payload.key === undefined) ||
-              state.routes[state.index].key === action.payload.key
-            ) {
+            const { key, name, params } = action.payload;
+            const getId =
+              name !== undefined && options.routeGetIdList
+                ? options.routeGetIdList[name]
+                : undefined;
+            const id =
+              name !== undefined && getId
+                ? getId({
+                    params:
+                      routeParamList[name] !== undefined
+                        ? { ...routeParamList[name], ...params }
+                        : params,
+                  })
+                : undefined;
+
+            // Routes are matched by key if specified
+            // Otherwise by the name, and the ID if the screen specifies `getId`
+            const isMatch = (route: Route<string>) =>
+              key !== undefined
+                ? route.key === key
+                : route.name === name &&
+                  (getId === undefined ||
+                    getId({ params: route.params }) === id);
+
+            if (isMatch(state.routes[state.index])) {
               index = state.index;
             } else {
               for (let i = state.routes.length - 1; i >= 0; i--) {
-                if (
-                  (state.routes[i].name === action.payload.name &&
-                    action.payload.key === undefined) ||
-                  state.routes[i].key === action.payload.key
-                ) {
+                if (isMatch(state.routes[i])) {
                   index = i;
                   break;
                 }
@@ -316,7 +495,7 @@ export default function StackRouter(options: StackRouterOptions) {
           return null;
 
         default:
-          return BaseRouter.getStateForAction(state, action);
+          return BaseRouter.getStateForAction(state, action, options);
       }
     },
 
@@ -18,6 +18,13 @@ export type TabActionType = {
 
 export type TabRouterOptions = DefaultRouterOptions & {
   backBehavior?: 'initialRoute' | 'order' | 'history' | 'none';
+  /**
+   * Whether every tab keeps its own stack, like separate apps running in parallel.
+   * Going back walks through the last 50 visited tabs in the order they were visited, including repeated visits,
+   * and long-pressing a tab in the tab bar pops its stack to the root.
+   * When enabled, `backBehavior` is ignored.
+   */
+  parallelStacks?: boolean;
 };
 
 export type TabNavigationState = NavigationState & {
@@ -37,12 +44,27 @@ export const TabActions = {
   },
 };
 
-const changeIndex = (state: TabNavigationState, index: number) => {
+// The history is persisted along with the state, so we only keep the latest visits
+const PARALLEL_STACKS_HISTORY_LIMIT = 50;
+
+const changeIndex = (
+  state: TabNavigationState,
+  index: number,
+  parallelStacks: boolean
+) => {
   const previousKey = state.routes[state.index].key;
   const currentKey = state.routes[index].key;
-  const routeKeyHistory = state.routeKeyHistory
-    .filter(key => key !== currentKey && key !== previousKey)
-    .concat(previousKey);
+
+  // With parallel stacks, every visit is kept so that going back retraces the path through the tabs
+  const routeKeyHistory = parallelStacks
+    ? index === state.index
+      ? state.routeKeyHistory
+      : state.routeKeyHistory
+          .concat(previousKey)
+          .slice(-PARALLEL_STACKS_HISTORY_LIMIT)
+    : state.routeKeyHistory
+        .filter(key => key !== currentKey && key !== previousKey)
+        .concat(previousKey);
 
   return {
     ...state,
@@ -53,8 +75,11 @@ const changeIndex = (state: TabNavigationState, index: number) => {
 
 export default function TabRouter({
   initialRouteName,
-  backBehavior = 'history',
+  backBehavior: backBehaviorOption = 'history',
+  parallelStacks = false,
 }: TabRouterOptions) {
+  const backBehavior = parallelStacks ? 'history' : backBehaviorOption;
+
   const router: Router<TabNavigationState, TabActionType | CommonAction> = {
     ...BaseRouter,
 
@@ -138,6 +163,7 @@ export default function TabRouter({
     },
 
     getStateForRouteNamesChange(state, { routeNames, routeParamList }) {
+      // Existing tabs are kept as is, including their keys, params and nested state
       const routes = routeNames.map(
         name =>
           state.routes.find(r => r.name === name) || {
@@ -147,11 +173,48 @@ export default function TabRouter({
           }
       );
 
+      const isKept = (key: string) => routes.some(r => r.key === key);
+
+      // When the focused tab is removed, focus the closest tab which still exists
+      // We prefer the tab after it, similar to closing a tab in a browser
+      const focusedRoute = state.routes
+        .slice(state.index)
+        .concat(state.routes.slice(0, state.index).reverse())
+        .find(r => isKept(r.key));
+
+      let index = focusedRoute
+        ? routes.findIndex(r => r.key === focusedRoute.key)
+        : initialRouteName !== undefined
+        ? routeNames.indexOf(initialRouteName)
+        : 0;
+
+      if (index === -1) {
+        index = 0;
+      }
+
+      const focusedKey = routes[index].key;
+
+      // Remove the history of the removed tabs and the entries which would lead back to the same tab
+      const routeKeyHistory = state.routeKeyHistory
+        .filter(isKept)
+        .reduce<string[]>((acc, key) => {
+          if (acc[acc.length - 1] !== key) {
+            acc.push(key);
+          }
+
+          return acc;
+        }, []);
+
+      while (routeKeyHistory[routeKeyHistory.length - 1] === focusedKey) {
+        routeKeyHistory.pop();
+      }
+
       return {
         ...state,
         routeNames,
         routes,
-        index: Math.min(state.index, routes.length - 1),
+        routeKeyHistory,
+        index,
       };
     },
 
@@ -162,10 +225,10 @@ export default function TabRouter({
         return state;
       }
 
-      return changeIndex(state, index);
+      return changeIndex(state, index, parallelStacks);
     },
 
-    getStateForAction(state, action) {
+    getStateForAction(state, action, options) {
       switch (action.type) {
         case 'JUMP_TO':
         case 'NAVIGATE': {
@@ -203,7 +266,8 @@ export default function TabRouter({
                     )
                   : state.routes,
             },
-            index
+            index,
+            parallelStacks
           );
         }
 
@@ -254,7 +318,7 @@ export default function TabRouter({
           }
 
         default:
-          return BaseRouter.getStateForAction(state, action);
+          return BaseRouter.getStateForAction(state, action, options);
       }
     },
 
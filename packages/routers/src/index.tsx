@@ -20,4 +20,5 @@ export {
   DrawerActionType,
   DrawerRouterOptions,
   DrawerNavigationState,
+  DrawerMode,
 } from './DrawerRouter';
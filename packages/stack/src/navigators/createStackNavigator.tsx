@@ -41,27 +41,42 @@ function StackNavigator({
     screenOptions,
   });
 
-  React.useEffect(
-    () =>
-      navigation.addListener &&
-      navigation.addListener('tabPress', (e: EventArg<'tabPress'>) => {
-        const isFocused = navigation.isFocused();
+  React.useEffect(() => {
+    if (!navigation.addListener) {
+      return;
+    }
 
-        // Run the operation in the next frame so we're sure all listeners have been run
-        // This is necessary to know if preventDefault() has been called
-        requestAnimationFrame(() => {
-          if (state.index > 0 && isFocused && !e.defaultPrevented) {
-            // When user taps on already focused tab and we're inside the tab,
-            // reset the stack to replicate native behaviour
-            navigation.dispatch({
-              ...StackActions.popToTop(),
-              target: state.key,
-            });
-          }
-        });
-      }),
-    [navigation, state.index, state.key]
-  );
+    const listener = (
+      e: EventArg<'tabPress' | 'tabLongPress', { popToTop: boolean }>
+    ) => {
+      // Tab navigators which don't say otherwise reset the stack when the focused tab is tapped
+      const popToTop = e.data ? e.data.popToTop : e.type === 'tabPress';
+
+      // Long press resets the stack of the tab even if it isn't focused
+      const isFocused = e.type === 'tabLongPress' || navigation.isFocused();
+
+      // Run the operation in the next frame so we're sure all listeners have been run
+      // This is necessary to know if preventDefault() has been called
+      requestAnimationFrame(() => {
+        if (state.index > 0 && popToTop && isFocused && !e.defaultPrevented) {
+          // When user taps on already focused tab and we're inside the tab,
+          // reset the stack to replicate native behaviour
+          navigation.dispatch({
+            ...StackActions.popToTop(),
+            target: state.key,
+          });
+        }
+      });
+    };
+
+    // The stack doesn't know the type of the parent tab navigator, so we pass the event names as strings
+    const unsubscribers = ['tabPress', 'tabLongPress'].map(type =>
+      // @ts-ignore
+      navigation.addListener(type, listener)
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [navigation, state.index, state.key]);
 
   return (
     <KeyboardManager enabled={keyboardHandlingEnabled !== false}>
@@ -62,6 +62,41 @@ export type StackNavigationProp<
    * Pop to the first route in the stack, dismissing all other screens.
    */
   popToTop(): void;
+
+  /**
+   * Pop to a screen in the stack, dismissing all the screens above it.
+   *
+   * @param route Name of the route to pop to the last screen with that name, or an object with the `key` or `name` of the route.
+   */
+  popTo<RouteName extends keyof ParamList>(
+    route: RouteName | { key: string } | { name: RouteName }
+  ): void;
+
+  /**
+   * Remove screens from the stack without changing the focused screen unless it's removed.
+   *
+   * @param [keys] Keys of the routes to remove, defaults to the current screen.
+   */
+  remove(keys?: string[]): void;
+
+  /**
+   * Insert a screen in the stack at an index, e.g. `-2` to insert it under the focused screen.
+   *
+   * @param index Index of the screen in the resulting stack, negative values count from the end with `-1` being the top.
+   * @param route Route object with the name, and optionally key and params.
+   */
+  insert<RouteName extends keyof ParamList>(
+    index: number,
+    route: { name: RouteName; key?: string; params?: ParamList[RouteName] }
+  ): void;
+
+  /**
+   * Move a screen to another index in the stack, e.g. `-1` to move it to the top.
+   *
+   * @param key Key of the route to move.
+   * @param index Index of the screen in the resulting stack, negative values count from the end with `-1` being the top.
+   */
+  moveTo(key: string, index: number): void;
 };
 
 export type Layout = { width: number; height: number };